@@ -0,0 +1,38 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_VOLUME_SCALES } from '../src/lib/volumeScale.js';
+
+const prisma = new PrismaClient();
+
+// Seed the VolumeScale table with the conversions the order routes used to hardcode.
+// Run with: npm run db:seed:volume-scales
+async function main() {
+    console.log(`Seeding ${DEFAULT_VOLUME_SCALES.length} volume scales...`);
+
+    for (const scale of DEFAULT_VOLUME_SCALES) {
+        await prisma.volumeScale.upsert({
+            where: {
+                operation_scopeType_scopeValue: {
+                    operation: scale.operation,
+                    scopeType: scale.scopeType,
+                    scopeValue: scale.scopeValue,
+                },
+            },
+            update: {
+                multiplier: scale.multiplier,
+                decimals: scale.decimals,
+            },
+            create: scale,
+        });
+    }
+
+    console.log(`Seeding finished.`);
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
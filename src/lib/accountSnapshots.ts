@@ -0,0 +1,148 @@
+/**
+ * Account balance/equity snapshots.
+ *
+ * The sync worker stores the bridge's GetClientBalance figures on MT5Account
+ * (balance, equity, margin, ... and lastSyncedAt) and records them in
+ * MT5AccountSnapshot for equity history. Routes fall back to the stored
+ * figures when the bridge is unreachable.
+ */
+
+import { z } from 'zod';
+import type { MT5Account } from '@prisma/client';
+import { prisma } from './db.js';
+import { MetaApiClient } from './metaapi.js';
+import { dateParam, rangeEndDateParam } from './validation.js';
+
+export interface AccountFigures {
+  balance: number;
+  equity: number;
+  margin: number;
+  marginFree: number;
+  marginLevel: number;
+  profit: number;
+  credit: number;
+}
+
+/** Most points returned by the equity history route */
+const MAX_HISTORY_POINTS = 1000;
+
+export const equityHistoryQuerySchema = z.object({
+  from: dateParam.optional(),
+  to: rangeEndDateParam.optional(),
+}).refine(query => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+  message: 'from must not be after to',
+  path: ['from'],
+});
+
+const toNumber = (value: unknown): number => {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : 0;
+};
+
+/**
+ * Figures from a GetClientBalance response, or null when it has no balance
+ */
+export function extractAccountFigures(data: any): AccountFigures | null {
+  const balance = data?.Balance ?? data?.balance;
+  if (balance === undefined || balance === null) return null;
+
+  return {
+    balance: toNumber(balance),
+    equity: toNumber(data.Equity ?? data.equity),
+    margin: toNumber(data.MarginUsed ?? data.marginUsed ?? data.Margin ?? data.margin),
+    marginFree: toNumber(data.FreeMargin ?? data.freeMargin ?? data.MarginFree ?? data.marginFree),
+    marginLevel: toNumber(data.MarginLevel ?? data.marginLevel),
+    profit: toNumber(data.Profit ?? data.profit),
+    credit: toNumber(data.Credit ?? data.credit),
+  };
+}
+
+/**
+ * Store the latest figures on the account
+ */
+export async function saveAccountFigures(mt5AccountId: string, figures: AccountFigures, syncedAt: Date = new Date()): Promise<void> {
+  await prisma.mT5Account.update({
+    where: { id: mt5AccountId },
+    data: { ...figures, lastSyncedAt: syncedAt },
+  });
+}
+
+/**
+ * Fetch the account's figures from the bridge, store them on the account
+ * and record a history snapshot
+ * @returns null when the bridge response has no balance
+ */
+export async function syncAccountSnapshot(mt5Account: MT5Account, client?: MetaApiClient): Promise<AccountFigures | null> {
+  const bridge = client ?? new MetaApiClient(mt5Account, 'sync');
+  const figures = extractAccountFigures(await bridge.getBalance());
+  if (!figures) return null;
+
+  const syncedAt = new Date();
+  await prisma.$transaction([
+    prisma.mT5Account.update({
+      where: { id: mt5Account.id },
+      data: { ...figures, lastSyncedAt: syncedAt },
+    }),
+    prisma.mT5AccountSnapshot.create({
+      data: { mt5AccountId: mt5Account.id, ...figures, createdAt: syncedAt },
+    }),
+  ]);
+  return figures;
+}
+
+/**
+ * Balance response built from the figures stored on the account, in the
+ * same shape as the live one (PascalCase and camelCase keys)
+ */
+export function storedBalanceData(mt5Account: MT5Account) {
+  return {
+    Balance: mt5Account.balance ?? 0,
+    balance: mt5Account.balance ?? 0,
+    Equity: mt5Account.equity ?? 0,
+    equity: mt5Account.equity ?? 0,
+    Margin: mt5Account.margin ?? 0,
+    margin: mt5Account.margin ?? 0,
+    MarginUsed: mt5Account.margin ?? 0,
+    marginUsed: mt5Account.margin ?? 0,
+    FreeMargin: mt5Account.marginFree ?? 0,
+    freeMargin: mt5Account.marginFree ?? 0,
+    MarginLevel: mt5Account.marginLevel ?? 0,
+    marginLevel: mt5Account.marginLevel ?? 0,
+    Profit: mt5Account.profit ?? 0,
+    profit: mt5Account.profit ?? 0,
+    Credit: mt5Account.credit ?? 0,
+    credit: mt5Account.credit ?? 0,
+    Currency: mt5Account.currency || 'USD',
+    currency: mt5Account.currency || 'USD',
+  };
+}
+
+/**
+ * Snapshots of an account in time order, evenly sampled down to
+ * MAX_HISTORY_POINTS for long ranges
+ */
+export async function getEquityHistory(mt5AccountId: string, query: z.infer<typeof equityHistoryQuerySchema>) {
+  const rows = await prisma.mT5AccountSnapshot.findMany({
+    where: {
+      mt5AccountId,
+      createdAt: {
+        ...(query.from && { gte: new Date(query.from) }),
+        ...(query.to && { lte: new Date(query.to) }),
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      createdAt: true,
+      balance: true,
+      equity: true,
+      margin: true,
+      marginFree: true,
+      marginLevel: true,
+      profit: true,
+    },
+  });
+
+  if (rows.length <= MAX_HISTORY_POINTS) return rows;
+  const step = (rows.length - 1) / (MAX_HISTORY_POINTS - 1);
+  return Array.from({ length: MAX_HISTORY_POINTS }, (_, index) => rows[Math.round(index * step)]);
+}
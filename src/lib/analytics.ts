@@ -0,0 +1,221 @@
+/**
+ * Performance statistics computed from closed trade history.
+ *
+ * A trade's result is its net P/L (profit + commission + swap). Hour and
+ * weekday buckets use the close time in the requested timezone.
+ */
+
+import { z } from 'zod';
+import { ClosedTrade } from './tradeHistory.js';
+import { isValidTimezone } from './terminalSettings.js';
+import { dateParam, rangeEndDateParam } from './validation.js';
+
+export const analyticsQuerySchema = z.object({
+  from: dateParam.optional(),
+  to: rangeEndDateParam.optional(),
+  /** IANA timezone for hour/weekday buckets (default: the user's timezone setting) */
+  timezone: z.string().trim().refine(value => value !== 'local' && isValidTimezone(value), 'Invalid timezone').optional(),
+}).refine(query => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+  message: 'from must not be after to',
+  path: ['from'],
+});
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+/** Most points returned in the equity curve; longer histories are sampled */
+const MAX_EQUITY_POINTS = 500;
+const TRADING_DAYS_PER_YEAR = 252;
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface BucketStats {
+  trades: number;
+  wins: number;
+  netProfit: number;
+}
+
+export interface SymbolStats extends BucketStats {
+  symbol: string;
+  winRate: number;
+}
+
+export interface AccountAnalytics {
+  tradeCount: number;
+  wins: number;
+  losses: number;
+  breakeven: number;
+  /** Percent of trades with a positive result */
+  winRate: number;
+  grossProfit: number;
+  grossLoss: number;
+  netProfit: number;
+  totalCommission: number;
+  totalSwap: number;
+  /** grossProfit / grossLoss; null without losing trades */
+  profitFactor: number | null;
+  /** Average result per trade */
+  expectancy: number;
+  averageWin: number;
+  averageLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  /** Largest peak-to-trough fall of cumulative P/L */
+  maxDrawdown: number;
+  /** Annualized mean/stdev of daily P/L; null with fewer than two trading days */
+  sharpeRatio: number | null;
+  bestSymbol: SymbolStats | null;
+  worstSymbol: SymbolStats | null;
+  bySymbol: SymbolStats[];
+  byHour: (BucketStats & { hour: number })[];
+  byWeekday: (BucketStats & { weekday: number; name: string })[];
+  equityCurve: { time: string; ticket: number; profit: number; cumulative: number }[];
+  timezone: string;
+  from: string | null;
+  to: string | null;
+}
+
+const round2 = (value: number) => Number(value.toFixed(2));
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+function emptyBucket(): BucketStats {
+  return { trades: 0, wins: 0, netProfit: 0 };
+}
+
+function addToBucket(bucket: BucketStats, result: number): void {
+  bucket.trades += 1;
+  if (result > 0) bucket.wins += 1;
+  bucket.netProfit += result;
+}
+
+/**
+ * Close-time hour, weekday and calendar day of trades in a timezone
+ */
+function zonedParts(timeZone: string) {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    weekday: 'short',
+  });
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return (time: string) => {
+    const parts = format.formatToParts(new Date(time));
+    const get = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+    return {
+      hour: Number(get('hour')),
+      weekday: weekdays.indexOf(get('weekday')),
+      day: `${get('year')}-${get('month')}-${get('day')}`,
+    };
+  };
+}
+
+/**
+ * Evenly sample a list down to at most `max` items, keeping the last one
+ */
+function sample<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = (items.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, index) => items[Math.round(index * step)]);
+}
+
+/**
+ * Compute statistics for closed trades. Trades without a close time only
+ * count toward the totals.
+ */
+export function computeAnalytics(
+  trades: ClosedTrade[],
+  options: { timezone: string; from?: string; to?: string }
+): AccountAnalytics {
+  const results = trades.map(trade => trade.netProfit);
+  const winning = results.filter(result => result > 0);
+  const losing = results.filter(result => result < 0);
+  const grossProfit = sum(winning);
+  const grossLoss = Math.abs(sum(losing));
+  const netProfit = sum(results);
+
+  const timed = trades
+    .filter((trade): trade is ClosedTrade & { closeTime: string } => trade.closeTime !== null)
+    .sort((a, b) => Date.parse(a.closeTime) - Date.parse(b.closeTime) || a.ticket - b.ticket);
+
+  // Equity curve and drawdown on cumulative P/L
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  const curve = timed.map(trade => {
+    cumulative += trade.netProfit;
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+    return { time: trade.closeTime, ticket: trade.ticket, profit: round2(trade.netProfit), cumulative: round2(cumulative) };
+  });
+
+  // Hour, weekday and daily buckets
+  const partsOf = zonedParts(options.timezone);
+  const byHour = Array.from({ length: 24 }, (_, hour) => ({ hour, ...emptyBucket() }));
+  const byWeekday = WEEKDAYS.map((name, weekday) => ({ weekday, name, ...emptyBucket() }));
+  const daily = new Map<string, number>();
+  for (const trade of timed) {
+    const parts = partsOf(trade.closeTime);
+    addToBucket(byHour[parts.hour], trade.netProfit);
+    addToBucket(byWeekday[parts.weekday], trade.netProfit);
+    daily.set(parts.day, (daily.get(parts.day) ?? 0) + trade.netProfit);
+  }
+
+  let sharpeRatio: number | null = null;
+  const dailyResults = [...daily.values()];
+  if (dailyResults.length >= 2) {
+    const mean = sum(dailyResults) / dailyResults.length;
+    const variance = sum(dailyResults.map(value => (value - mean) ** 2)) / (dailyResults.length - 1);
+    const stdev = Math.sqrt(variance);
+    sharpeRatio = stdev > 0 ? round2(mean / stdev * Math.sqrt(TRADING_DAYS_PER_YEAR)) : null;
+  }
+
+  const symbols = new Map<string, BucketStats>();
+  for (const trade of trades) {
+    const bucket = symbols.get(trade.symbol) ?? emptyBucket();
+    addToBucket(bucket, trade.netProfit);
+    symbols.set(trade.symbol, bucket);
+  }
+  const bySymbol = [...symbols.entries()]
+    .map(([symbol, bucket]) => ({
+      symbol,
+      ...bucket,
+      netProfit: round2(bucket.netProfit),
+      winRate: round2(bucket.wins / bucket.trades * 100),
+    }))
+    .sort((a, b) => b.netProfit - a.netProfit);
+
+  const roundBucket = <T extends BucketStats>(bucket: T): T => ({ ...bucket, netProfit: round2(bucket.netProfit) });
+
+  return {
+    tradeCount: trades.length,
+    wins: winning.length,
+    losses: losing.length,
+    breakeven: trades.length - winning.length - losing.length,
+    winRate: trades.length > 0 ? round2(winning.length / trades.length * 100) : 0,
+    grossProfit: round2(grossProfit),
+    grossLoss: round2(grossLoss),
+    netProfit: round2(netProfit),
+    totalCommission: round2(sum(trades.map(trade => trade.commission))),
+    totalSwap: round2(sum(trades.map(trade => trade.swap))),
+    profitFactor: grossLoss > 0 ? round2(grossProfit / grossLoss) : null,
+    expectancy: trades.length > 0 ? round2(netProfit / trades.length) : 0,
+    averageWin: winning.length > 0 ? round2(grossProfit / winning.length) : 0,
+    averageLoss: losing.length > 0 ? round2(-grossLoss / losing.length) : 0,
+    largestWin: round2(winning.reduce((max, value) => Math.max(max, value), 0)),
+    largestLoss: round2(losing.reduce((min, value) => Math.min(min, value), 0)),
+    maxDrawdown: round2(maxDrawdown),
+    sharpeRatio,
+    bestSymbol: bySymbol[0] ?? null,
+    worstSymbol: bySymbol.length > 1 ? bySymbol[bySymbol.length - 1] : null,
+    bySymbol,
+    byHour: byHour.map(roundBucket),
+    byWeekday: byWeekday.map(roundBucket),
+    equityCurve: sample(curve, MAX_EQUITY_POINTS),
+    timezone: options.timezone,
+    from: options.from ?? null,
+    to: options.to ?? null,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Cache for computed account analytics.
+ *
+ * Entries are grouped per MT5 account so one invalidation drops every
+ * cached query for it. Close routes and the analytics invalidator call
+ * invalidateAnalytics when a trade closes. Each entry also records the
+ * latest closed trade it was computed from, so closes the backend does not
+ * see (e.g. from the desktop terminal) are caught by checking for newer
+ * trades before serving it. Backed by Redis when configured so
+ * invalidation reaches every instance.
+ */
+
+import type { Redis } from 'ioredis';
+import { env } from './env.js';
+import { getRedis, isRedisConfigured } from './redis.js';
+import { AccountAnalytics } from './analytics.js';
+import type { ClosedTrade } from './tradeHistory.js';
+
+export const ANALYTICS_TTL_SECONDS = 15 * 60;
+
+/**
+ * The most recently closed trade analytics were computed from
+ */
+export interface LatestTrade {
+  ticket: number;
+  closeTime: string;
+}
+
+export interface CachedAnalytics {
+  analytics: AccountAnalytics;
+  /** null when the range had no closed trades */
+  latestTrade: LatestTrade | null;
+}
+
+/**
+ * Latest closed trade by close time, then ticket
+ */
+export function getLatestTrade(trades: Pick<ClosedTrade, 'ticket' | 'closeTime'>[]): LatestTrade | null {
+  let latest: LatestTrade | null = null;
+  for (const { ticket, closeTime } of trades) {
+    if (closeTime && (!latest || isAfter({ ticket, closeTime }, latest))) {
+      latest = { ticket, closeTime };
+    }
+  }
+  return latest;
+}
+
+function isAfter(a: LatestTrade, b: LatestTrade): boolean {
+  const diff = Date.parse(a.closeTime) - Date.parse(b.closeTime);
+  return diff > 0 || (diff === 0 && a.ticket > b.ticket);
+}
+
+/**
+ * Whether any trade closed after the one cached analytics were computed from
+ */
+export function hasNewerTrade(trades: Pick<ClosedTrade, 'ticket' | 'closeTime'>[], latest: LatestTrade | null): boolean {
+  const newest = getLatestTrade(trades);
+  if (!newest) return false;
+  return !latest || isAfter(newest, latest);
+}
+
+export interface AnalyticsCache {
+  get(accountId: string, queryKey: string): Promise<CachedAnalytics | null>;
+  set(accountId: string, queryKey: string, value: CachedAnalytics): Promise<void>;
+  /**
+   * Drop every cached query for an account
+   */
+  invalidate(accountId: string): Promise<void>;
+}
+
+export class MemoryAnalyticsCache implements AnalyticsCache {
+  private entries: Map<string, Map<string, { value: CachedAnalytics; expiresAt: number }>> = new Map();
+
+  async get(accountId: string, queryKey: string): Promise<CachedAnalytics | null> {
+    const entry = this.entries.get(accountId)?.get(queryKey);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.get(accountId)?.delete(queryKey);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(accountId: string, queryKey: string, value: CachedAnalytics): Promise<void> {
+    const account = this.entries.get(accountId) ?? new Map();
+    account.set(queryKey, { value, expiresAt: Date.now() + ANALYTICS_TTL_SECONDS * 1000 });
+    this.entries.set(accountId, account);
+  }
+
+  async invalidate(accountId: string): Promise<void> {
+    this.entries.delete(accountId);
+  }
+}
+
+/**
+ * One Redis hash per account, expiring as a whole. Redis errors count as
+ * cache misses.
+ */
+export class RedisAnalyticsCache implements AnalyticsCache {
+  private redis: Redis;
+  private prefix: string;
+
+  constructor(redis: Redis, prefix: string = 'analytics:') {
+    this.redis = redis;
+    this.prefix = prefix;
+  }
+
+  async get(accountId: string, queryKey: string): Promise<CachedAnalytics | null> {
+    try {
+      const raw = await this.redis.hget(this.prefix + accountId, queryKey);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.error('[Analytics] Redis get failed:', error);
+      return null;
+    }
+  }
+
+  async set(accountId: string, queryKey: string, value: CachedAnalytics): Promise<void> {
+    try {
+      const key = this.prefix + accountId;
+      // The TTL is set only when the hash is created, so no query outlives
+      // the first one cached after an invalidation
+      await this.redis.multi()
+        .hset(key, queryKey, JSON.stringify(value))
+        .expire(key, ANALYTICS_TTL_SECONDS, 'NX')
+        .exec();
+    } catch (error) {
+      console.error('[Analytics] Redis set failed:', error);
+    }
+  }
+
+  async invalidate(accountId: string): Promise<void> {
+    try {
+      await this.redis.del(this.prefix + accountId);
+    } catch (error) {
+      console.error('[Analytics] Redis invalidate failed:', error);
+    }
+  }
+}
+
+/**
+ * Build the cache for this process (same driver choice as the token cache)
+ */
+export function createAnalyticsCache(): AnalyticsCache {
+  const driver = env.TOKEN_CACHE_DRIVER || (isRedisConfigured() ? 'redis' : 'memory');
+
+  if (driver === 'redis') {
+    return new RedisAnalyticsCache(getRedis());
+  }
+  return new MemoryAnalyticsCache();
+}
+
+export const analyticsCache = createAnalyticsCache();
+
+/**
+ * Drop cached analytics for an account after one of its trades closed
+ * @param accountId The MT5 login (MT5Account.accountId)
+ */
+export function invalidateAnalytics(accountId: string): void {
+  analyticsCache.invalidate(accountId).catch((error) => {
+    console.error('[Analytics] Invalidate failed:', error);
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Default SL/TP for market orders (TerminalSettings.autoTPSL).
+ *
+ * Users keep AutoTPSLRule rows per symbol or per instrument category with
+ * distances in points or as a percentage of the entry price. When autoTPSL
+ * is on and an order arrives without SL/TP, the levels are computed from the
+ * current quote: buys enter at the ask, sells at the bid. A quote older than
+ * MAX_QUOTE_AGE_MS is not used. When the levels cannot be computed, the
+ * user's autoTPSLRequireQuote setting decides whether the order is refused
+ * or placed without them.
+ */
+
+import { z } from 'zod';
+import { prisma } from './db.js';
+import { findInstrument, getPointSize, roundPrice } from './instruments.js';
+import { getMarketFeed } from './marketFeed.js';
+import { getTerminalSettings } from './terminalSettings.js';
+import type { TradeSide } from './metaapi.js';
+
+/** Oldest quote the levels are computed from */
+export const MAX_QUOTE_AGE_MS = 10000;
+
+export const AUTO_TPSL_SCOPES = ['symbol', 'category'] as const;
+export const AUTO_TPSL_MODES = ['points', 'percent'] as const;
+
+export const autoTPSLRuleSchema = z.object({
+  scopeType: z.enum(AUTO_TPSL_SCOPES),
+  scopeValue: z.string().trim().min(1, 'Symbol or category is required'),
+  mode: z.enum(AUTO_TPSL_MODES),
+  stopLoss: z.number().positive('Stop loss distance must be positive').nullable().optional(),
+  takeProfit: z.number().positive('Take profit distance must be positive').nullable().optional(),
+}).refine(rule => rule.stopLoss != null || rule.takeProfit != null, {
+  message: 'Set a stop loss or take profit distance',
+  path: ['stopLoss'],
+});
+
+interface RuleDistances {
+  mode: string;
+  stopLoss: number | null;
+  takeProfit: number | null;
+}
+
+export type AutoTPSLResult =
+  | {
+    applied: true;
+    stopLoss: number | null;
+    takeProfit: number | null;
+    /** Quote price the levels were computed from */
+    price: number;
+    mode: string;
+    rule: { scopeType: string; scopeValue: string };
+  }
+  | {
+    applied: false;
+    reason: 'NO_INSTRUMENT' | 'NO_QUOTE';
+    /** The user's autoTPSLRequireQuote: refuse the order rather than place it unprotected */
+    required: boolean;
+  };
+
+/**
+ * Compute SL/TP prices for an entry. A level that would end up at or
+ * below zero is left out.
+ */
+export function computeAutoTPSLLevels(
+  rule: RuleDistances,
+  side: TradeSide,
+  price: number,
+  instrument: { digits: number; point: number | null }
+): { stopLoss: number | null; takeProfit: number | null } {
+  const toDistance = (value: number | null) => {
+    if (value == null) return null;
+    return rule.mode === 'percent' ? price * value / 100 : value * getPointSize(instrument);
+  };
+
+  const direction = side === 'buy' ? 1 : -1;
+  const slDistance = toDistance(rule.stopLoss);
+  const tpDistance = toDistance(rule.takeProfit);
+
+  const stopLoss = slDistance != null ? roundPrice(price - direction * slDistance, instrument.digits) : null;
+  const takeProfit = tpDistance != null ? roundPrice(price + direction * tpDistance, instrument.digits) : null;
+
+  return {
+    stopLoss: stopLoss != null && stopLoss > 0 ? stopLoss : null,
+    takeProfit: takeProfit != null && takeProfit > 0 ? takeProfit : null,
+  };
+}
+
+/**
+ * Resolve default SL/TP for a market order.
+ * @returns null when autoTPSL is off or no rule covers the symbol
+ */
+export async function resolveAutoTPSL(params: {
+  userId: string;
+  symbol: string;
+  side: TradeSide;
+  group?: string | null;
+}): Promise<AutoTPSLResult | null> {
+  const settings = await getTerminalSettings(params.userId);
+  if (!settings.autoTPSL) return null;
+
+  const instrument = await findInstrument(params.symbol, params.group);
+
+  // A symbol rule wins over the rule for its category
+  const rules = await prisma.autoTPSLRule.findMany({
+    where: {
+      userId: params.userId,
+      OR: [
+        { scopeType: 'symbol', scopeValue: { equals: params.symbol, mode: 'insensitive' } },
+        ...(instrument ? [{ scopeType: 'category', scopeValue: { equals: instrument.category, mode: 'insensitive' as const } }] : []),
+      ],
+    },
+  });
+  const rule = rules.find(r => r.scopeType === 'symbol') ?? rules[0];
+  if (!rule) return null;
+
+  if (!instrument) {
+    return { applied: false, reason: 'NO_INSTRUMENT', required: settings.autoTPSLRequireQuote };
+  }
+
+  const quote = await getMarketFeed().getQuote(params.symbol, undefined, MAX_QUOTE_AGE_MS);
+  if (!quote) {
+    return { applied: false, reason: 'NO_QUOTE', required: settings.autoTPSLRequireQuote };
+  }
+
+  const price = params.side === 'buy' ? quote.ask : quote.bid;
+  const levels = computeAutoTPSLLevels(rule, params.side, price, instrument);
+
+  return {
+    applied: true,
+    ...levels,
+    price,
+    mode: rule.mode,
+    rule: { scopeType: rule.scopeType, scopeValue: rule.scopeValue },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Bridge calls in flight at once for bulk actions (close-all, cancel-all)
+ */
+export const BULK_TRADE_CONCURRENCY = 5;
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
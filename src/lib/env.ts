@@ -16,6 +16,9 @@ const envSchema = z.object({
   REDIS_PORT: z.string().optional(),
   REDIS_PASSWORD: z.string().optional(),
 
+  // MetaAPI token cache backend (defaults to redis when Redis is configured)
+  TOKEN_CACHE_DRIVER: z.enum(['memory', 'redis']).optional(),
+
   // JWT
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
   NEXT_PUBLIC_JWT_SECRET: z.string().optional(),
@@ -24,6 +27,8 @@ const envSchema = z.object({
   NEXT_PUBLIC_API_BASE_URL: z.string().url('Invalid API_BASE_URL'),
   LIVE_API_URL: z.string().url('Invalid LIVE_API_URL').default('http://18.130.5.209:5003/api'),
   NEXT_PUBLIC_WS_URL: z.string().default('/ws-proxy'),
+  MARKET_HUB_URL: z.string().url('Invalid MARKET_HUB_URL').optional(),
+  TRADING_HUB_URL: z.string().url('Invalid TRADING_HUB_URL').optional(),
   MANAGER_USERNAME: z.string().min(1, 'MANAGER_USERNAME is required'),
   MANAGER_PASSWORD: z.string().min(1, 'MANAGER_PASSWORD is required'),
   MANAGER_SERVER_IP: z.string().min(1, 'MANAGER_SERVER_IP is required'),
@@ -0,0 +1,286 @@
+/**
+ * Storage for Idempotency-Key handling on trade requests.
+ *
+ * A key moves from in-flight (claimed by the request that is talking to the
+ * bridge) to completed (holding the response to replay). In-flight claims
+ * expire on their own so a crashed request cannot lock a key forever; the
+ * request holding one refreshes it while it runs.
+ * Backed by Redis when configured, so replays work across instances.
+ */
+
+import { Redis } from 'ioredis';
+import { env } from './env.js';
+import { getRedis, isRedisConfigured } from './redis.js';
+
+/** How long a completed response is replayed */
+export const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+/** How long an in-flight claim holds the key without a refresh */
+export const IDEMPOTENCY_LOCK_SECONDS = 60;
+/** How often the request holding a claim refreshes it */
+export const IDEMPOTENCY_REFRESH_MS = (IDEMPOTENCY_LOCK_SECONDS * 1000) / 3;
+
+export interface StoredResponse {
+  status: number;
+  body: any;
+}
+
+export type IdempotencyState =
+  | { state: 'new' }
+  | { state: 'in_flight'; fingerprint: string }
+  | { state: 'completed'; fingerprint: string; response: StoredResponse };
+
+export interface IdempotencyStore {
+  /**
+   * Claim a key, or return what is already stored under it
+   */
+  begin(key: string, fingerprint: string): Promise<IdempotencyState>;
+  /**
+   * Look up a key without claiming it
+   */
+  peek(key: string): Promise<IdempotencyState>;
+  /**
+   * Store the final response for a claimed key
+   */
+  complete(key: string, fingerprint: string, response: StoredResponse): Promise<void>;
+  /**
+   * Extend an in-flight claim this fingerprint holds. False once it was lost.
+   */
+  refresh(key: string, fingerprint: string): Promise<boolean>;
+  /**
+   * Drop an in-flight claim this fingerprint holds, so the key can be used again
+   */
+  release(key: string, fingerprint: string): Promise<void>;
+}
+
+interface MemoryEntry {
+  value: Exclude<IdempotencyState, { state: 'new' }>;
+  expiresAt: number;
+}
+
+/** How often writes sweep out expired entries */
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+/** Entries kept at most; the oldest go first past this */
+const MEMORY_MAX_ENTRIES = 10000;
+
+/**
+ * In-process store. Expired entries are swept out on writes at most once a
+ * minute and the size is capped, so keys that are never replayed do not
+ * pile up over the TTL.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private entries: Map<string, MemoryEntry> = new Map();
+  private maxEntries: number;
+  private nextSweepAt = 0;
+
+  constructor(maxEntries: number = MEMORY_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private read(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private write(key: string, entry: MemoryEntry): void {
+    const now = Date.now();
+    if (now >= this.nextSweepAt) {
+      this.nextSweepAt = now + MEMORY_SWEEP_INTERVAL_MS;
+      for (const [storedKey, stored] of this.entries) {
+        if (now >= stored.expiresAt) this.entries.delete(storedKey);
+      }
+    }
+
+    // Re-insert so the Map's order stays oldest write first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async begin(key: string, fingerprint: string): Promise<IdempotencyState> {
+    const entry = this.read(key);
+    if (entry) return entry.value;
+
+    this.write(key, {
+      value: { state: 'in_flight', fingerprint },
+      expiresAt: Date.now() + IDEMPOTENCY_LOCK_SECONDS * 1000,
+    });
+    return { state: 'new' };
+  }
+
+  async peek(key: string): Promise<IdempotencyState> {
+    return this.read(key)?.value ?? { state: 'new' };
+  }
+
+  async complete(key: string, fingerprint: string, response: StoredResponse): Promise<void> {
+    this.write(key, {
+      value: { state: 'completed', fingerprint, response },
+      expiresAt: Date.now() + IDEMPOTENCY_TTL_SECONDS * 1000,
+    });
+  }
+
+  private isClaimedBy(entry: MemoryEntry | undefined, fingerprint: string): entry is MemoryEntry {
+    return entry?.value.state === 'in_flight' && entry.value.fingerprint === fingerprint;
+  }
+
+  async refresh(key: string, fingerprint: string): Promise<boolean> {
+    const entry = this.read(key);
+    if (!this.isClaimedBy(entry, fingerprint)) return false;
+
+    entry.expiresAt = Date.now() + IDEMPOTENCY_LOCK_SECONDS * 1000;
+    return true;
+  }
+
+  async release(key: string, fingerprint: string): Promise<void> {
+    if (this.isClaimedBy(this.read(key), fingerprint)) {
+      this.entries.delete(key);
+    }
+  }
+}
+
+// Only touch the key while it still holds the caller's in-flight claim
+const REFRESH_IF_CLAIMED_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+const RELEASE_IF_CLAIMED_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis store. Claims use SET NX so only one instance sends the trade.
+ * When Redis is unreachable requests go through without idempotency
+ * rather than failing the trade.
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  private redis: Redis;
+  private prefix: string;
+
+  constructor(redis: Redis, prefix: string = 'idempotency:') {
+    this.redis = redis;
+    this.prefix = prefix;
+  }
+
+  private parse(raw: string | null): IdempotencyState {
+    if (!raw) return { state: 'new' };
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return { state: 'new' };
+    }
+  }
+
+  private claim(fingerprint: string): string {
+    return JSON.stringify({ state: 'in_flight', fingerprint });
+  }
+
+  async begin(key: string, fingerprint: string): Promise<IdempotencyState> {
+    try {
+      const claimed = await this.redis.set(
+        this.prefix + key,
+        this.claim(fingerprint),
+        'EX',
+        IDEMPOTENCY_LOCK_SECONDS,
+        'NX'
+      );
+      if (claimed) return { state: 'new' };
+      return this.parse(await this.redis.get(this.prefix + key));
+    } catch (error) {
+      console.error('[Idempotency] Redis begin failed:', error);
+      return { state: 'new' };
+    }
+  }
+
+  async peek(key: string): Promise<IdempotencyState> {
+    try {
+      return this.parse(await this.redis.get(this.prefix + key));
+    } catch (error) {
+      console.error('[Idempotency] Redis get failed:', error);
+      return { state: 'new' };
+    }
+  }
+
+  async complete(key: string, fingerprint: string, response: StoredResponse): Promise<void> {
+    try {
+      await this.redis.set(
+        this.prefix + key,
+        JSON.stringify({ state: 'completed', fingerprint, response }),
+        'EX',
+        IDEMPOTENCY_TTL_SECONDS
+      );
+    } catch (error) {
+      console.error('[Idempotency] Redis complete failed:', error);
+    }
+  }
+
+  async refresh(key: string, fingerprint: string): Promise<boolean> {
+    try {
+      const result = await this.redis.eval(
+        REFRESH_IF_CLAIMED_SCRIPT,
+        1,
+        this.prefix + key,
+        this.claim(fingerprint),
+        IDEMPOTENCY_LOCK_SECONDS
+      );
+      return result === 1;
+    } catch (error) {
+      // Keep going: losing the claim is no worse than running without Redis
+      console.error('[Idempotency] Redis refresh failed:', error);
+      return true;
+    }
+  }
+
+  async release(key: string, fingerprint: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_IF_CLAIMED_SCRIPT, 1, this.prefix + key, this.claim(fingerprint));
+    } catch (error) {
+      console.error('[Idempotency] Redis release failed:', error);
+    }
+  }
+}
+
+/**
+ * Refresh a claim every IDEMPOTENCY_REFRESH_MS until the returned function
+ * is called, so long-running work keeps the key
+ */
+export function holdClaim(store: IdempotencyStore, key: string, fingerprint: string): () => void {
+  const timer = setInterval(() => {
+    store.refresh(key, fingerprint).then((held) => {
+      if (!held) console.warn(`[Idempotency] Lost the claim on ${key} while it was held`);
+    }).catch((error) => {
+      console.error('[Idempotency] Failed to refresh claim:', error);
+    });
+  }, IDEMPOTENCY_REFRESH_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Build the store for this process (same driver choice as the token cache)
+ */
+export function createIdempotencyStore(): IdempotencyStore {
+  const driver = env.TOKEN_CACHE_DRIVER || (isRedisConfigured() ? 'redis' : 'memory');
+
+  if (driver === 'redis') {
+    return new RedisIdempotencyStore(getRedis());
+  }
+  return new MemoryIdempotencyStore();
+}
+
+export const idempotencyStore = createIdempotencyStore();
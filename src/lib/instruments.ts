@@ -0,0 +1,64 @@
+/**
+ * Instrument lookups shared by the instrument and trading routes
+ */
+
+import { prisma } from './db.js';
+
+/**
+ * Map an MT5 account group to the group its instruments are stored under.
+ * B-book groups share the symbol specs of their LP/NLP counterparts.
+ */
+export function mapInstrumentGroup(group: string): string {
+  if (group.includes('\\Bbook\\Pro\\')) {
+    return group.replace('\\Bbook\\Pro\\', '\\LP\\Pro\\');
+  } else if (group.includes('\\Bbook\\Startup\\')) {
+    return group.replace('\\Bbook\\Startup\\', '\\NLP\\Start-up\\');
+  } else if (group.includes('\\Bbook\\')) {
+    return group.replace('\\Bbook\\', '\\LP\\');
+  }
+  return group;
+}
+
+/**
+ * Find the active instrument spec for a symbol, preferring the one
+ * configured for the account's group.
+ */
+export async function findInstrument(symbol: string, group?: string | null) {
+  const symbolFilter = { equals: symbol.replace('/', ''), mode: 'insensitive' as const };
+
+  if (group) {
+    const forGroup = await prisma.instrument.findFirst({
+      where: {
+        symbol: symbolFilter,
+        OR: [
+          { group: mapInstrumentGroup(group) },
+          { group: group }
+        ],
+        isActive: true,
+      },
+    });
+    if (forGroup) return forGroup;
+  }
+
+  return prisma.instrument.findFirst({
+    where: {
+      symbol: symbolFilter,
+      isActive: true,
+    },
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+/**
+ * Size of one point for an instrument (falls back to 10^-digits)
+ */
+export function getPointSize(instrument: { point: number | null; digits: number }): number {
+  return instrument.point && instrument.point > 0 ? instrument.point : Math.pow(10, -instrument.digits);
+}
+
+/**
+ * Round a price to the instrument's number of digits
+ */
+export function roundPrice(price: number, digits: number): number {
+  return Number(price.toFixed(digits));
+}
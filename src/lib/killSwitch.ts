@@ -0,0 +1,98 @@
+/**
+ * Kill switch: a self-imposed trading pause on a user or a single MT5 account.
+ * While active, new risk-increasing trades are refused; closing is allowed.
+ * A switch with killSwitchUntil set expires on its own once that time passes.
+ */
+
+import { z } from 'zod';
+import { prisma } from './db.js';
+import { TradeSide } from './metaapi.js';
+
+export const KILL_SWITCH_DURATIONS = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+} as const;
+
+export type KillSwitchDuration = keyof typeof KILL_SWITCH_DURATIONS;
+
+export const killSwitchActivationSchema = z.object({
+  duration: z.enum(Object.keys(KILL_SWITCH_DURATIONS) as [KillSwitchDuration, ...KillSwitchDuration[]]),
+});
+
+export interface KillSwitchState {
+  killSwitchActive: boolean;
+  killSwitchUntil: Date | null;
+}
+
+export interface ActiveKillSwitch {
+  scope: 'user' | 'account';
+  /** null = until switched off by support */
+  until: Date | null;
+}
+
+/**
+ * Whether a kill switch is in force (an expired one counts as off)
+ */
+export function isKillSwitchActive(state: KillSwitchState, now: Date = new Date()): boolean {
+  if (!state.killSwitchActive) return false;
+  return !state.killSwitchUntil || state.killSwitchUntil > now;
+}
+
+/**
+ * End time for a new activation. An active switch is only ever extended,
+ * never shortened, by activating it again.
+ */
+export function getKillSwitchUntil(current: KillSwitchState, duration: KillSwitchDuration): Date | null {
+  const requested = new Date(Date.now() + KILL_SWITCH_DURATIONS[duration]);
+  if (!isKillSwitchActive(current)) return requested;
+  if (!current.killSwitchUntil) return null;
+  return current.killSwitchUntil > requested ? current.killSwitchUntil : requested;
+}
+
+/**
+ * Find the kill switch blocking trades on an account, user-wide first
+ */
+export async function getActiveKillSwitch(userId: string, mt5AccountId?: string): Promise<ActiveKillSwitch | null> {
+  const [user, account] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { killSwitchActive: true, killSwitchUntil: true },
+    }),
+    mt5AccountId
+      ? prisma.mT5Account.findFirst({
+        where: {
+          userId,
+          OR: [
+            { id: mt5AccountId },
+            { accountId: mt5AccountId }
+          ],
+          archived: false,
+        },
+        select: { killSwitchActive: true, killSwitchUntil: true },
+      })
+      : null,
+  ]);
+
+  if (user && isKillSwitchActive(user)) {
+    return { scope: 'user', until: user.killSwitchUntil };
+  }
+  if (account && isKillSwitchActive(account)) {
+    return { scope: 'account', until: account.killSwitchUntil };
+  }
+  return null;
+}
+
+/**
+ * Whether a stop-loss change only adds or tightens protection, which is
+ * allowed while a kill switch is active. Removing or widening the SL is not.
+ * @param current The position's SL, null when it has none
+ * @param requested The new SL; 0 removes it
+ */
+export function isProtectiveStopLossChange(side: TradeSide, current: number | null, requested: number): boolean {
+  if (requested <= 0) return current === null;
+  if (current === null) return true;
+  return side === 'sell' ? requested <= current : requested >= current;
+}
@@ -0,0 +1,97 @@
+/**
+ * Margin call / stop-out warnings.
+ *
+ * Thresholds are margin levels in percent, configured per group in
+ * MarginWarningConfig (defaults below). MT5Account.marginWarningLevel holds
+ * the lowest threshold the account is below; a warning is sent only when
+ * the level falls below a lower threshold than that. A threshold is cleared
+ * once the level is back above it by the hysteresis, so a level hovering
+ * around a threshold warns once.
+ */
+
+import type { MT5Account } from '@prisma/client';
+import { prisma } from './db.js';
+import { AccountFigures } from './accountSnapshots.js';
+import { createNotification } from './notifications.js';
+
+export const DEFAULT_MARGIN_WARNING_LEVELS = [150, 100, 50];
+export const DEFAULT_MARGIN_WARNING_HYSTERESIS = 10;
+
+export interface MarginWarningConfig {
+  /** Margin levels in percent, highest first */
+  levels: number[];
+  /** Percentage points above a threshold the level must recover to clear it */
+  hysteresis: number;
+}
+
+/**
+ * Thresholds for a group: its own config row, else the '' row, else the defaults
+ */
+export async function getMarginWarningConfig(group: string | null): Promise<MarginWarningConfig> {
+  const rows = await prisma.marginWarningConfig.findMany({
+    where: { group: { in: group ? [group, ''] : [''] } },
+  });
+  const row = rows.find(config => config.group === group) ?? rows.find(config => config.group === '');
+
+  return {
+    levels: [...(row?.levels ?? DEFAULT_MARGIN_WARNING_LEVELS)].filter(level => level > 0).sort((a, b) => b - a),
+    hysteresis: Math.max(0, row?.hysteresis ?? DEFAULT_MARGIN_WARNING_HYSTERESIS),
+  };
+}
+
+/**
+ * Threshold the account is below after moving to marginLevel, or null
+ * when it is clear of all of them
+ * @param current The account's marginWarningLevel before this update
+ */
+export function nextMarginWarningLevel(config: MarginWarningConfig, marginLevel: number, current: number | null): number | null {
+  let next: number | null = null;
+  for (const level of config.levels) {
+    const crossed = marginLevel <= level;
+    // A threshold already reached stays set until the level clears it by the hysteresis
+    const held = current !== null && level >= current && marginLevel <= level + config.hysteresis;
+    if (crossed || held) next = next === null ? level : Math.min(next, level);
+  }
+  return next;
+}
+
+/**
+ * Compare fresh account figures with the thresholds, store the new warning
+ * level and notify the user when it dropped below a new threshold.
+ * Instances race on a conditional update, so only one of them notifies.
+ */
+export async function checkMarginLevel(
+  mt5Account: Pick<MT5Account, 'id' | 'accountId' | 'userId' | 'group' | 'marginWarningLevel'>,
+  figures: AccountFigures
+): Promise<void> {
+  if (!mt5Account.userId) return;
+
+  const config = await getMarginWarningConfig(mt5Account.group);
+  const current = mt5Account.marginWarningLevel;
+  // MT5 reports a level of 0 when there is no margin in use
+  const next = figures.margin > 0 ? nextMarginWarningLevel(config, figures.marginLevel, current) : null;
+  if (next === current) return;
+
+  const { count } = await prisma.mT5Account.updateMany({
+    where: { id: mt5Account.id, marginWarningLevel: current },
+    data: { marginWarningLevel: next },
+  });
+  if (count === 0 || next === null || (current !== null && next > current)) return;
+
+  const stopOut = next === config.levels[config.levels.length - 1];
+  const marginLevel = Number(figures.marginLevel.toFixed(2));
+  await createNotification({
+    userId: mt5Account.userId,
+    type: 'margin_warning',
+    title: stopOut ? 'Stop-out warning' : 'Margin call warning',
+    message: `Margin level on account ${mt5Account.accountId} is ${marginLevel}% (below ${next}%)`,
+    metadata: {
+      accountId: mt5Account.accountId,
+      marginLevel,
+      threshold: next,
+      equity: figures.equity,
+      margin: figures.margin,
+      marginFree: figures.marginFree,
+    },
+  });
+}
@@ -0,0 +1,399 @@
+/**
+ * Upstream market/account feed.
+ *
+ * The streaming gateway and background workers consume prices and account
+ * events from a single process-wide feed. Subscriptions are reference
+ * counted, so several consumers can watch the same symbol or account and
+ * the upstream subscription is only dropped when the last one leaves.
+ */
+
+import { EventEmitter } from 'events';
+import { HubConnection, HubConnectionBuilder, HubConnectionState, LogLevel } from '@microsoft/signalr';
+import { env } from './env.js';
+import { MetaApiAccount, MetaApiClient } from './metaapi.js';
+
+export interface Tick {
+  symbol: string;
+  bid: number;
+  ask: number;
+  /** Epoch milliseconds */
+  time: number;
+}
+
+export interface PositionsUpdate {
+  accountId: string;
+  positions: any[];
+}
+
+export interface OrderUpdate {
+  accountId: string;
+  order: any;
+}
+
+export interface MarketFeedEvents {
+  tick: [Tick];
+  positions: [PositionsUpdate];
+  order: [OrderUpdate];
+}
+
+/**
+ * Base feed: reference counting, last-tick cache and event fan-out.
+ * Implementations only translate subscription changes to the upstream.
+ */
+export abstract class MarketFeed extends EventEmitter<MarketFeedEvents> {
+  private symbolRefs: Map<string, number> = new Map();
+  private accountRefs: Map<string, number> = new Map();
+  private lastTicks: Map<string, Tick> = new Map();
+  // When each last tick arrived here (epoch ms), independent of the broker clock
+  private tickReceivedAt: Map<string, number> = new Map();
+
+  constructor() {
+    super();
+    // Gateway clients and workers all listen on the same feed
+    this.setMaxListeners(0);
+  }
+
+  abstract start(): Promise<void>;
+  abstract stop(): Promise<void>;
+
+  protected abstract addSymbols(symbols: string[]): Promise<void>;
+  protected abstract removeSymbols(symbols: string[]): Promise<void>;
+  protected abstract addAccount(account: MetaApiAccount): Promise<void>;
+  protected abstract removeAccount(accountId: string): Promise<void>;
+
+  /**
+   * Subscribe to price ticks for symbols
+   */
+  async subscribeSymbols(symbols: string[]): Promise<void> {
+    const added: string[] = [];
+    for (const symbol of symbols.map(normalizeSymbol)) {
+      const refs = this.symbolRefs.get(symbol) ?? 0;
+      this.symbolRefs.set(symbol, refs + 1);
+      if (refs === 0) added.push(symbol);
+    }
+    if (added.length > 0) await this.addSymbols(added);
+  }
+
+  /**
+   * Release a subscription taken with subscribeSymbols
+   */
+  async unsubscribeSymbols(symbols: string[]): Promise<void> {
+    const removed: string[] = [];
+    for (const symbol of symbols.map(normalizeSymbol)) {
+      const refs = this.symbolRefs.get(symbol) ?? 0;
+      if (refs <= 1) {
+        if (refs === 1) removed.push(symbol);
+        this.symbolRefs.delete(symbol);
+        // Unwatched symbols would only keep going stale
+        this.lastTicks.delete(symbol);
+        this.tickReceivedAt.delete(symbol);
+      } else {
+        this.symbolRefs.set(symbol, refs - 1);
+      }
+    }
+    if (removed.length > 0) await this.removeSymbols(removed);
+  }
+
+  /**
+   * Subscribe to position and order updates for an MT5 account
+   */
+  async subscribeAccount(account: MetaApiAccount): Promise<void> {
+    const refs = this.accountRefs.get(account.accountId) ?? 0;
+    this.accountRefs.set(account.accountId, refs + 1);
+    if (refs === 0) await this.addAccount(account);
+  }
+
+  /**
+   * Release a subscription taken with subscribeAccount
+   */
+  async unsubscribeAccount(accountId: string): Promise<void> {
+    const refs = this.accountRefs.get(accountId) ?? 0;
+    if (refs <= 1) {
+      this.accountRefs.delete(accountId);
+      if (refs === 1) await this.removeAccount(accountId);
+    } else {
+      this.accountRefs.set(accountId, refs - 1);
+    }
+  }
+
+  /**
+   * MT5 logins with an open account subscription on this instance
+   */
+  getSubscribedAccounts(): string[] {
+    return [...this.accountRefs.keys()];
+  }
+
+  /**
+   * Most recent tick for a subscribed symbol, if any
+   * @param maxAgeMs Ignore a tick received longer ago than this
+   */
+  getLastTick(symbol: string, maxAgeMs?: number): Tick | undefined {
+    const key = normalizeSymbol(symbol);
+    if (maxAgeMs !== undefined && Date.now() - (this.tickReceivedAt.get(key) ?? 0) > maxAgeMs) {
+      return undefined;
+    }
+    return this.lastTicks.get(key);
+  }
+
+  /**
+   * Current quote for a symbol. Uses the last tick when there is one (and
+   * it is no older than maxAgeMs, if given), otherwise subscribes briefly
+   * and waits for the next tick.
+   * @returns null if no tick arrives within timeoutMs
+   */
+  async getQuote(symbol: string, timeoutMs: number = 2000, maxAgeMs?: number): Promise<Tick | null> {
+    const key = normalizeSymbol(symbol);
+    const last = this.getLastTick(key, maxAgeMs);
+    if (last) return last;
+
+    await this.subscribeSymbols([key]);
+    try {
+      return await new Promise<Tick | null>((resolve) => {
+        const onTick = (tick: Tick) => {
+          if (tick.symbol !== key) return;
+          clearTimeout(timer);
+          this.off('tick', onTick);
+          resolve(tick);
+        };
+        const timer = setTimeout(() => {
+          this.off('tick', onTick);
+          resolve(null);
+        }, timeoutMs);
+        this.on('tick', onTick);
+      });
+    } finally {
+      await this.unsubscribeSymbols([key]);
+    }
+  }
+
+  protected subscribedSymbols(): string[] {
+    return [...this.symbolRefs.keys()];
+  }
+
+  protected publishTick(tick: Tick): void {
+    const normalized = { ...tick, symbol: normalizeSymbol(tick.symbol) };
+    this.lastTicks.set(normalized.symbol, normalized);
+    this.tickReceivedAt.set(normalized.symbol, Date.now());
+    this.emit('tick', normalized);
+  }
+
+  protected publishPositions(update: PositionsUpdate): void {
+    this.emit('positions', update);
+  }
+
+  protected publishOrder(update: OrderUpdate): void {
+    this.emit('order', update);
+  }
+}
+
+/**
+ * Symbols are keyed upper-case without a '/' separator
+ */
+export function normalizeSymbol(symbol: string): string {
+  return String(symbol || '').replace('/', '').trim().toUpperCase();
+}
+
+// Hub contract of the MetaAPI bridge
+const MARKET_HUB_METHODS = {
+  subscribe: 'SubscribeSymbols',
+  unsubscribe: 'UnsubscribeSymbols',
+  quote: 'ReceiveQuote',
+};
+const TRADING_HUB_METHODS = {
+  positions: 'PositionsUpdate',
+  order: 'OrderUpdate',
+};
+
+/**
+ * Normalize a quote payload from the hub (PascalCase or camelCase)
+ */
+function toTick(payload: any): Tick | null {
+  const symbol = payload?.Symbol ?? payload?.symbol;
+  const bid = Number(payload?.Bid ?? payload?.bid);
+  const ask = Number(payload?.Ask ?? payload?.ask);
+  if (!symbol || !Number.isFinite(bid) || !Number.isFinite(ask)) return null;
+
+  const rawTime = payload?.Time ?? payload?.time;
+  const time = typeof rawTime === 'number' ? rawTime : rawTime ? Date.parse(rawTime) : Date.now();
+  return { symbol, bid, ask, time: Number.isFinite(time) ? time : Date.now() };
+}
+
+function buildHub(url: string, accessTokenFactory?: () => Promise<string>): HubConnection {
+  return new HubConnectionBuilder()
+    .withUrl(url, accessTokenFactory ? { accessTokenFactory } : {})
+    .withAutomaticReconnect()
+    .configureLogging(LogLevel.Warning)
+    .build();
+}
+
+// Waits between attempts while the market hub has never connected;
+// withAutomaticReconnect only takes over once a connection was up
+const MARKET_HUB_START_RETRY_MS = [2000, 5000, 15000, 30000];
+
+/**
+ * Feed backed by the bridge's SignalR hubs: one shared market data hub and
+ * one trading hub connection per subscribed account.
+ */
+export class SignalRMarketFeed extends MarketFeed {
+  private marketHubUrl: string;
+  private tradingHubUrl: string | undefined;
+  private marketHub: HubConnection | null = null;
+  private tradingHubs: Map<string, HubConnection> = new Map();
+  private startRetry: NodeJS.Timeout | null = null;
+
+  constructor(marketHubUrl: string, tradingHubUrl?: string) {
+    super();
+    this.marketHubUrl = marketHubUrl;
+    this.tradingHubUrl = tradingHubUrl;
+  }
+
+  async start(): Promise<void> {
+    if (this.marketHub) return;
+
+    const hub = buildHub(this.marketHubUrl);
+    hub.on(MARKET_HUB_METHODS.quote, (payload: any) => {
+      const quotes = Array.isArray(payload) ? payload : [payload];
+      for (const quote of quotes) {
+        const tick = toTick(quote);
+        if (tick) this.publishTick(tick);
+      }
+    });
+
+    // Re-subscribe everything after an automatic reconnect
+    hub.onreconnected(() => {
+      const symbols = this.subscribedSymbols();
+      if (symbols.length > 0) {
+        hub.invoke(MARKET_HUB_METHODS.subscribe, symbols).catch((error) => {
+          console.error('[MarketFeed] Re-subscribe failed:', error);
+        });
+      }
+    });
+
+    this.marketHub = hub;
+    await this.connectMarketHub(hub, 0);
+  }
+
+  /**
+   * Start the market hub, retrying in the background until it connects
+   * or the feed is stopped
+   */
+  private async connectMarketHub(hub: HubConnection, attempt: number): Promise<void> {
+    try {
+      await hub.start();
+    } catch (error) {
+      if (this.marketHub !== hub) return;
+      const delay = MARKET_HUB_START_RETRY_MS[Math.min(attempt, MARKET_HUB_START_RETRY_MS.length - 1)];
+      console.error(`[MarketFeed] Market hub connection failed, retrying in ${delay / 1000}s:`, error instanceof Error ? error.message : error);
+      this.startRetry = setTimeout(() => {
+        this.startRetry = null;
+        this.connectMarketHub(hub, attempt + 1).catch((retryError) => {
+          console.error('[MarketFeed] Market hub subscribe failed:', retryError);
+        });
+      }, delay);
+      this.startRetry.unref();
+      return;
+    }
+    console.log('[MarketFeed] Connected to market hub');
+
+    const symbols = this.subscribedSymbols();
+    if (symbols.length > 0) await this.addSymbols(symbols);
+  }
+
+  async stop(): Promise<void> {
+    if (this.startRetry) clearTimeout(this.startRetry);
+    this.startRetry = null;
+    await Promise.allSettled([
+      this.marketHub?.stop(),
+      ...[...this.tradingHubs.values()].map(hub => hub.stop()),
+    ]);
+    this.marketHub = null;
+    this.tradingHubs.clear();
+  }
+
+  protected async addSymbols(symbols: string[]): Promise<void> {
+    if (this.marketHub?.state !== HubConnectionState.Connected) return;
+    await this.marketHub.invoke(MARKET_HUB_METHODS.subscribe, symbols);
+  }
+
+  protected async removeSymbols(symbols: string[]): Promise<void> {
+    if (this.marketHub?.state !== HubConnectionState.Connected) return;
+    await this.marketHub.invoke(MARKET_HUB_METHODS.unsubscribe, symbols);
+  }
+
+  protected async addAccount(account: MetaApiAccount): Promise<void> {
+    if (!this.tradingHubUrl) return;
+
+    const client = new MetaApiClient(account, 'stream');
+    const hub = buildHub(this.tradingHubUrl, () => client.getAccessToken());
+    hub.on(TRADING_HUB_METHODS.positions, (payload: any) => {
+      const positions = Array.isArray(payload) ? payload : payload?.positions ?? payload?.Positions ?? [];
+      this.publishPositions({ accountId: account.accountId, positions });
+    });
+    hub.on(TRADING_HUB_METHODS.order, (order: any) => {
+      this.publishOrder({ accountId: account.accountId, order });
+    });
+
+    this.tradingHubs.set(account.accountId, hub);
+    await hub.start();
+  }
+
+  protected async removeAccount(accountId: string): Promise<void> {
+    const hub = this.tradingHubs.get(accountId);
+    this.tradingHubs.delete(accountId);
+    await hub?.stop();
+  }
+}
+
+/**
+ * In-process feed with no upstream. Used when no hub is configured, and by
+ * tests to push ticks and account events by hand.
+ */
+export class LocalMarketFeed extends MarketFeed {
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+
+  protected async addSymbols(): Promise<void> {}
+  protected async removeSymbols(): Promise<void> {}
+  protected async addAccount(): Promise<void> {}
+  protected async removeAccount(): Promise<void> {}
+
+  /**
+   * There is no upstream to wait on: the last pushed tick, or null right away
+   */
+  async getQuote(symbol: string, _timeoutMs?: number, maxAgeMs?: number): Promise<Tick | null> {
+    return this.getLastTick(symbol, maxAgeMs) ?? null;
+  }
+
+  pushTick(tick: Tick): void {
+    this.publishTick(tick);
+  }
+
+  pushPositions(update: PositionsUpdate): void {
+    this.publishPositions(update);
+  }
+
+  pushOrder(update: OrderUpdate): void {
+    this.publishOrder(update);
+  }
+}
+
+let marketFeed: MarketFeed | null = null;
+
+/**
+ * Process-wide feed. Uses SignalR when MARKET_HUB_URL is set.
+ */
+export function getMarketFeed(): MarketFeed {
+  if (!marketFeed) {
+    marketFeed = env.MARKET_HUB_URL
+      ? new SignalRMarketFeed(env.MARKET_HUB_URL, env.TRADING_HUB_URL)
+      : new LocalMarketFeed();
+  }
+  return marketFeed;
+}
+
+/**
+ * Replace the process-wide feed (e.g. with a LocalMarketFeed in tests)
+ */
+export function setMarketFeed(feed: MarketFeed): void {
+  marketFeed = feed;
+}
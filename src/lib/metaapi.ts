@@ -0,0 +1,708 @@
+/**
+ * Typed client for the MetaAPI C# bridge in front of the MT5 server.
+ *
+ * Every trading/account route goes through this module so that login, URL
+ * building, timeouts, retries, error mapping and response normalization
+ * behave the same way everywhere.
+ */
+
+import { tokenCache } from './tokenCache.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const TRADE_MODIFY_TIMEOUT_MS = 35000;
+const TOKEN_TTL_SECONDS = 3600;
+const RETRY_DELAY_MS = 300;
+
+/**
+ * In-flight logins per MT5 account, so concurrent requests that need a
+ * token share one login call instead of each firing their own.
+ */
+const pendingLogins = new Map<string, Promise<string>>();
+
+/**
+ * MT5 "Request Placed" return code. The bridge reports it with a non-2xx
+ * status, but the terminal treats it as an accepted request.
+ */
+export const RETURN_CODE_REQUEST_PLACED = 10012;
+
+export type TradeSide = 'buy' | 'sell';
+
+/**
+ * Error raised for any failed bridge call. `statusCode` is what the route
+ * should respond with and `data` is the raw bridge payload (if any).
+ */
+export class MetaApiError extends Error {
+  statusCode: number;
+  data: any;
+
+  constructor(message: string, statusCode: number = 502, data: any = null) {
+    super(message);
+    this.name = 'MetaApiError';
+    this.statusCode = statusCode;
+    this.data = data;
+  }
+}
+
+/**
+ * Whether an error means the bridge could not answer (unreachable, timed
+ * out or a 5xx) rather than that it rejected the request
+ */
+export function isBridgeUnavailable(error: unknown): boolean {
+  return error instanceof MetaApiError && error.statusCode >= 500;
+}
+
+/**
+ * Minimal MT5 account shape needed to talk to the bridge
+ */
+export interface MetaApiAccount {
+  accountId: string;
+  password: string | null;
+}
+
+export interface MetaApiResponse<T = any> {
+  ok: boolean;
+  status: number;
+  data: T;
+}
+
+/**
+ * Result of a trade request (order placement, close, modify)
+ */
+export interface TradeResult<T = any> {
+  status: number;
+  data: T;
+  /** True when the bridge answered with return code 10012 */
+  requestPlaced: boolean;
+}
+
+export interface MarketOrderParams {
+  symbol: string;
+  side: TradeSide;
+  /** Volume already converted to bridge units */
+  volume: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  comment?: string;
+}
+
+export type PendingOrderEndpoint =
+  | 'buy-limit' | 'sell-limit' | 'buy-stop' | 'sell-stop'
+  | 'buy-stop-limit' | 'sell-stop-limit';
+
+export interface PendingOrderParams {
+  symbol: string;
+  /** Order price (the trigger price for stop-limit orders) */
+  price: number;
+  /** Limit price placed once a stop-limit order triggers */
+  stopLimitPrice?: number;
+  /** Volume already converted to bridge units */
+  volume: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  /** ORDER_TYPE_TIME (0 = GTC) */
+  typeTime?: number;
+  expiration?: string;
+  comment?: string;
+}
+
+export interface ModifyPendingOrderParams {
+  orderId: number;
+  price?: number;
+  volume?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  typeTime?: number;
+  expiration?: string;
+}
+
+export interface ModifyPositionParams {
+  positionId: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  comment?: string;
+}
+
+export interface TradeHistoryParams {
+  fromDate?: string;
+  toDate?: string;
+  pageSize?: number;
+}
+
+interface RequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  timeoutMs?: number;
+  /** Extra attempts on network errors and 5xx responses */
+  retries?: number;
+}
+
+/**
+ * Base URL of the bridge, e.g. https://metaapi.zuperior.com/api
+ */
+export function getApiBase(): string {
+  const liveApiUrl = (process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api').replace(/\/$/, '');
+  return liveApiUrl.endsWith('/api') ? liveApiUrl : `${liveApiUrl}/api`;
+}
+
+/**
+ * Client login URL. CLIENT_LOGIN_PATH may be absolute, or relative to the
+ * API base with or without a leading /api.
+ */
+export function getLoginUrl(): string {
+  const loginPath = (process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login').replace(/^\/api\//, '/');
+  if (loginPath.startsWith('http')) {
+    return loginPath;
+  }
+  return `${getApiBase()}/${loginPath.replace(/^\//, '')}`;
+}
+
+/**
+ * Pick the access token out of the different login response shapes
+ */
+export function extractToken(data: any): string | null {
+  return data?.Token || data?.accessToken || data?.AccessToken || data?.data?.accessToken || data?.token || null;
+}
+
+/**
+ * Pick a list out of the different collection response shapes
+ * (bare array, Items, Data, data, or an endpoint specific key)
+ */
+export function extractList(data: any, ...keys: string[]): any[] {
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== 'object') return [];
+
+  for (const key of [...keys, 'Items', 'Data', 'data']) {
+    if (Array.isArray(data[key])) return data[key];
+  }
+  return [];
+}
+
+/**
+ * Pick a human readable error message out of a bridge response
+ */
+export function extractMessage(data: any, fallback: string): string {
+  if (typeof data === 'string' && data.trim()) return data;
+  return data?.message ||
+    data?.Message ||
+    data?.error ||
+    data?.Error ||
+    data?.ErrorMessage ||
+    data?.errorMessage ||
+    fallback;
+}
+
+/**
+ * MT5 return code from a trade response, if present
+ */
+export function extractReturnCode(data: any): number | undefined {
+  return data?.returnCode ?? data?.ReturnCode;
+}
+
+/**
+ * Ticket of the order a trade response created, if the bridge reported it
+ */
+export function extractOrderTicket(data: any): number | null {
+  const payload = data?.data ?? data?.Data ?? data;
+  const ticket = Number(payload?.Order ?? payload?.order ?? payload?.OrderId ?? payload?.orderId ?? payload?.Ticket ?? payload?.ticket);
+  return Number.isFinite(ticket) && ticket > 0 ? ticket : null;
+}
+
+/**
+ * Side of a position or order row. MT5 position and order types are even
+ * for buys and odd for sells; some bridge versions send names like
+ * "BuyLimit" instead.
+ */
+export function extractSide(row: any): TradeSide | null {
+  const type = row?.Type ?? row?.type ?? row?.OrderType ?? row?.orderType;
+  if (typeof type === 'number') return type % 2 === 0 ? 'buy' : 'sell';
+  const name = String(type ?? '').toLowerCase();
+  if (name.includes('buy')) return 'buy';
+  if (name.includes('sell')) return 'sell';
+  return null;
+}
+
+/**
+ * Ticket of a position row; the bridge has used several field names for it
+ */
+export function extractPositionId(row: any): number {
+  return Number(row?.PositionId ?? row?.positionId ?? row?.Ticket ?? row?.ticket ?? row?.Id ?? row?.id);
+}
+
+/**
+ * SL and TP of a position or order row; null when not set (MT5 reports 0)
+ */
+export function extractProtection(row: any): { stopLoss: number | null; takeProfit: number | null } {
+  const stopLoss = Number(row?.StopLoss ?? row?.stopLoss ?? row?.SL ?? row?.sl ?? 0);
+  const takeProfit = Number(row?.TakeProfit ?? row?.takeProfit ?? row?.TP ?? row?.tp ?? 0);
+  return {
+    stopLoss: Number.isFinite(stopLoss) && stopLoss > 0 ? stopLoss : null,
+    takeProfit: Number.isFinite(takeProfit) && takeProfit > 0 ? takeProfit : null,
+  };
+}
+
+/**
+ * Ticket of a pending order row from the bridge
+ */
+export function extractOrderId(row: any): number {
+  return Number(row?.OrderId ?? row?.orderId ?? row?.Ticket ?? row?.ticket ?? row?.Id ?? row?.id ?? 0);
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Perform a single HTTP call against the bridge with timeout and retries.
+ * The body is parsed as JSON when possible and returned as text otherwise.
+ */
+async function send(url: string, options: RequestOptions = {}): Promise<MetaApiResponse> {
+  const attempts = (options.retries ?? 0) + 1;
+  const headers: Record<string, string> = { Accept: 'application/json', ...options.headers };
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    let response: globalThis.Response;
+    let text = '';
+
+    try {
+      response = await fetch(url, {
+        method: options.method || 'GET',
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: ctrl.signal,
+      });
+      text = await response.text().catch(() => '');
+    } catch (err) {
+      if (attempt < attempts) {
+        await delay(RETRY_DELAY_MS * attempt);
+        continue;
+      }
+      const timedOut = ctrl.signal.aborted;
+      throw new MetaApiError(
+        timedOut ? 'MetaAPI request timed out' : 'MetaAPI is unreachable',
+        timedOut ? 504 : 502,
+        { error: err instanceof Error ? err.message : 'Unknown error' }
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status >= 500 && attempt < attempts) {
+      await delay(RETRY_DELAY_MS * attempt);
+      continue;
+    }
+
+    let data: any = null;
+    if (text.trim()) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = text;
+      }
+    }
+
+    return { ok: response.ok, status: response.status, data };
+  }
+}
+
+/**
+ * Whether a trade response counts as accepted: HTTP success (or 10012)
+ * without an explicit `success: false` in the body.
+ */
+function isTradeAccepted(response: MetaApiResponse): boolean {
+  if (extractReturnCode(response.data) === RETURN_CODE_REQUEST_PLACED) return true;
+  const bodySuccess = response.data?.success ?? response.data?.Success;
+  return response.ok && bodySuccess !== false;
+}
+
+function toTradeResult(response: MetaApiResponse): TradeResult {
+  const requestPlaced = extractReturnCode(response.data) === RETURN_CODE_REQUEST_PLACED;
+  return {
+    status: requestPlaced ? 200 : response.status,
+    data: response.data ?? {},
+    requestPlaced,
+  };
+}
+
+function toError(response: MetaApiResponse, fallback: string): MetaApiError {
+  return new MetaApiError(extractMessage(response.data, fallback), response.status || 502, response.data);
+}
+
+/**
+ * Bridge client bound to one MT5 account. Tokens are shared through
+ * `tokenCache`, so creating a client per request is cheap.
+ */
+export class MetaApiClient {
+  private account: MetaApiAccount;
+  private deviceTag: string;
+
+  /**
+   * @param account MT5 account (login number and password)
+   * @param deviceTag Short label used in the DeviceId sent on login
+   */
+  constructor(account: MetaApiAccount, deviceTag: string = 'device') {
+    this.account = account;
+    this.deviceTag = deviceTag;
+  }
+
+  get accountId(): string {
+    return this.account.accountId;
+  }
+
+  /**
+   * Get a cached access token or log in for a new one
+   */
+  async getAccessToken(): Promise<string> {
+    return (await tokenCache.get(this.accountId)) ?? this.login();
+  }
+
+  /**
+   * Log in to the bridge and cache the resulting token. Joins the login
+   * already in flight for this account, if any.
+   */
+  login(): Promise<string> {
+    const inFlight = pendingLogins.get(this.accountId);
+    if (inFlight) return inFlight;
+
+    const accountId = this.accountId;
+    const loginPromise = this.performLogin().finally(() => {
+      pendingLogins.delete(accountId);
+    });
+    pendingLogins.set(accountId, loginPromise);
+    return loginPromise;
+  }
+
+  /**
+   * Replace a token the bridge rejected. If another request already
+   * refreshed it, that token is reused instead of logging in again.
+   */
+  private async refreshToken(rejectedToken: string): Promise<string> {
+    await tokenCache.clear(this.accountId, rejectedToken);
+    return (await tokenCache.get(this.accountId)) ?? this.login();
+  }
+
+  private async performLogin(): Promise<string> {
+    const password = this.account.password?.trim();
+    if (!password) {
+      throw new MetaApiError('MT5 account password not found', 400);
+    }
+
+    const accountIdInt = parseInt(this.accountId, 10);
+    if (isNaN(accountIdInt)) {
+      throw new MetaApiError('Invalid account ID format in database', 400);
+    }
+
+    const response = await send(getLoginUrl(), {
+      method: 'POST',
+      body: {
+        AccountId: accountIdInt,
+        Password: password,
+        DeviceId: `web_${this.deviceTag}_${Date.now()}`,
+        DeviceType: 'web',
+      },
+      retries: 1,
+    }).catch(async (error) => {
+      await tokenCache.recordFailure(this.accountId);
+      throw error;
+    });
+
+    const token = response.ok ? extractToken(response.data) : null;
+    if (!token) {
+      console.error('[MetaAPI] Login failed:', { accountId: this.accountId, status: response.status });
+      await tokenCache.recordFailure(this.accountId);
+      throw new MetaApiError('Failed to authenticate with MetaAPI', 401, response.data);
+    }
+
+    await tokenCache.set(this.accountId, token, TOKEN_TTL_SECONDS);
+    await tokenCache.recordLogin(this.accountId);
+    return token;
+  }
+
+  /**
+   * Authenticated call relative to the API base. A 401 means the bridge
+   * revoked the token early: log in again once and retry the request.
+   */
+  private async request(path: string, options: RequestOptions = {}): Promise<MetaApiResponse> {
+    const url = `${getApiBase()}${path}`;
+    const withToken = (token: string): RequestOptions => ({
+      ...options,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        AccountId: this.accountId,
+        ...options.headers,
+      },
+    });
+
+    const token = await this.getAccessToken();
+    const response = await send(url, withToken(token));
+    if (response.status !== 401) return response;
+
+    console.warn('[MetaAPI] Token rejected, logging in again:', { accountId: this.accountId, path });
+    const freshToken = await this.refreshToken(token);
+    return send(url, withToken(freshToken));
+  }
+
+  /**
+   * Open positions
+   */
+  async getPositions(): Promise<any[]> {
+    const response = await this.request('/client/Positions', { retries: 1 });
+    if (!response.ok) throw toError(response, 'Failed to fetch positions');
+    return extractList(response.data, 'positions');
+  }
+
+  /**
+   * Pending orders
+   */
+  async getOrders(): Promise<any[]> {
+    const response = await this.request('/client/Orders', { retries: 1 });
+    if (!response.ok) throw toError(response, 'Failed to fetch orders');
+    return extractList(response.data, 'orders');
+  }
+
+  /**
+   * Open position by ticket, or null if it is not open
+   */
+  async findPosition(positionId: number): Promise<any | null> {
+    const positions = await this.getPositions();
+    return positions.find(p => extractPositionId(p) === positionId) ?? null;
+  }
+
+  /**
+   * Pending order by ticket, or null if it is not pending
+   */
+  async findOrder(orderId: number): Promise<any | null> {
+    const orders = await this.getOrders();
+    return orders.find(o => extractOrderId(o) === orderId) ?? null;
+  }
+
+  /**
+   * Closed trades (deals) in a date range
+   */
+  async getTradeHistory(params: TradeHistoryParams = {}): Promise<any[]> {
+    const fromDate = params.fromDate || '1970-01-01';
+    const toDate = params.toDate || '2100-01-01';
+    const pageSize = String(params.pageSize ?? 10000);
+
+    // The bridge has accepted both casings over time, so send both
+    const query = new URLSearchParams();
+    query.set('accountId', this.accountId);
+    query.set('AccountId', this.accountId);
+    query.set('fromDate', fromDate);
+    query.set('FromDate', fromDate);
+    query.set('toDate', toDate);
+    query.set('ToDate', toDate);
+    query.set('pageSize', pageSize);
+    query.set('PageSize', pageSize);
+
+    const response = await this.request(`/client/tradehistory/trades?${query.toString()}`, { retries: 1 });
+    if (!response.ok) throw toError(response, 'Failed to fetch trade history');
+    return extractList(response.data, 'trades');
+  }
+
+  /**
+   * Balance, equity and margin figures from GetClientBalance
+   */
+  async getBalance(): Promise<any> {
+    const response = await this.request(`/Users/${encodeURIComponent(this.accountId)}/GetClientBalance`, { retries: 1 });
+    if (!response.ok) throw toError(response, 'Failed to fetch balance');
+
+    const result = response.data;
+    const success = result?.Success ?? result?.success;
+    const data = result?.Data ?? result?.data;
+    if (success === false || !data) {
+      throw new MetaApiError(extractMessage(result, 'Failed to fetch balance from MetaAPI'), 400, result);
+    }
+    return data;
+  }
+
+  /**
+   * Place a market order. Buy and sell use separate endpoints.
+   */
+  async placeMarketOrder(params: MarketOrderParams): Promise<TradeResult> {
+    const tradePath = params.side === 'sell' ? 'trade-sell' : 'trade';
+    const response = await this.request(`/client/${tradePath}?account_id=${encodeURIComponent(this.accountId)}`, {
+      method: 'POST',
+      body: {
+        symbol: params.symbol,
+        volume: params.volume,
+        price: 0, // Market orders use price: 0
+        stopLoss: params.stopLoss ?? 0,
+        takeProfit: params.takeProfit ?? 0,
+        comment: params.comment ?? (params.side === 'sell' ? 'Sell' : 'Buy'),
+      },
+    });
+
+    if (!isTradeAccepted(response)) {
+      console.error('[MetaAPI] Market order failed:', { status: response.status, data: response.data, params });
+      throw toError(response, 'Failed to place market order');
+    }
+    return toTradeResult(response);
+  }
+
+  /**
+   * Place a pending order on one of the per-type endpoints
+   */
+  async placePendingOrder(endpoint: PendingOrderEndpoint, params: PendingOrderParams): Promise<TradeResult> {
+    const response = await this.request(`/client/${endpoint}?account_id=${encodeURIComponent(this.accountId)}`, {
+      method: 'POST',
+      body: {
+        Symbol: params.symbol,
+        Price: params.price,
+        ...(params.stopLimitPrice !== undefined ? { StopLimit: params.stopLimitPrice } : {}),
+        Volume: params.volume,
+        StopLoss: params.stopLoss ?? 0,
+        TakeProfit: params.takeProfit ?? 0,
+        TypeTime: params.typeTime ?? 0,
+        Expiration: params.expiration ?? '0001-01-01T00:00:00', // No expiration
+        Comment: params.comment ?? '',
+      },
+    });
+
+    if (!isTradeAccepted(response)) {
+      console.error('[MetaAPI] Pending order failed:', { status: response.status, endpoint, data: response.data, params });
+      throw toError(response, 'Failed to place pending order');
+    }
+    return toTradeResult(response);
+  }
+
+  /**
+   * Modify price, volume, SL/TP or expiry of a pending order
+   */
+  async modifyPendingOrder(params: ModifyPendingOrderParams): Promise<TradeResult> {
+    const payload: Record<string, number | string> = { OrderId: params.orderId };
+    if (params.price !== undefined) payload.Price = params.price;
+    if (params.volume !== undefined) payload.Volume = params.volume;
+    if (params.takeProfit !== undefined) payload.TakeProfit = params.takeProfit;
+    if (params.stopLoss !== undefined) payload.StopLoss = params.stopLoss;
+    if (params.typeTime !== undefined) payload.TypeTime = params.typeTime;
+    if (params.expiration !== undefined) payload.Expiration = params.expiration;
+
+    const response = await this.request('/client/Orders/ModifyPendingOrder', {
+      method: 'PUT',
+      body: payload,
+    });
+
+    if (!isTradeAccepted(response)) throw toError(response, 'Failed to modify pending order');
+    return toTradeResult(response);
+  }
+
+  /**
+   * Cancel (delete) a pending order
+   */
+  async cancelPendingOrder(orderId: number): Promise<TradeResult> {
+    // Primary: DELETE /client/order/{orderId}
+    const primary = await this.request(`/client/order/${orderId}`, { method: 'DELETE' });
+    if (isTradeAccepted(primary)) return toTradeResult(primary);
+
+    // Fallback: POST /client/Orders/CancelPendingOrder
+    const fallback = await this.request('/client/Orders/CancelPendingOrder', {
+      method: 'POST',
+      body: { OrderId: orderId },
+    });
+    if (isTradeAccepted(fallback)) return toTradeResult(fallback);
+
+    throw toError(fallback, 'Failed to cancel pending order');
+  }
+
+  /**
+   * Close a position, fully or partially (volume in bridge units).
+   * Falls back through the endpoints the bridge has exposed over time.
+   */
+  async closePosition(positionId: number, volume?: number): Promise<TradeResult> {
+    const hasVolume = volume !== undefined && volume > 0;
+
+    // Primary: DELETE /client/position/{positionId}
+    const query = hasVolume ? `?volume=${encodeURIComponent(String(volume))}` : '';
+    const primary = await this.request(`/client/position/${positionId}${query}`, { method: 'DELETE' });
+    if (isTradeAccepted(primary)) return toTradeResult(primary);
+
+    // Fallback 1: POST /client/position/close with camelCase payload
+    const fallback1 = await this.request('/client/position/close', {
+      method: 'POST',
+      body: { positionId, ...(hasVolume ? { volume } : {}) },
+    });
+    if (isTradeAccepted(fallback1)) return toTradeResult(fallback1);
+
+    // Fallback 2: POST /Trading/position/close with PascalCase payload
+    const fallback2 = await this.request('/Trading/position/close', {
+      method: 'POST',
+      body: {
+        Login: parseInt(this.accountId, 10),
+        PositionId: positionId,
+        ...(hasVolume ? { Volume: volume } : {}),
+      },
+    });
+    if (isTradeAccepted(fallback2)) return toTradeResult(fallback2);
+
+    throw toError(fallback2, 'Failed to close position');
+  }
+
+  /**
+   * Close a position by an opposite one on the same symbol (hedging accounts).
+   * Both are reduced by the smaller volume and only one spread is paid.
+   */
+  async closePositionBy(positionId: number, oppositePositionId: number): Promise<TradeResult> {
+    // Primary: POST /client/position/close-by
+    const primary = await this.request('/client/position/close-by', {
+      method: 'POST',
+      body: { positionId, positionBy: oppositePositionId },
+    });
+    if (isTradeAccepted(primary)) return toTradeResult(primary);
+
+    // Fallback: POST /Trading/position/close-by with PascalCase payload
+    const fallback = await this.request('/Trading/position/close-by', {
+      method: 'POST',
+      body: {
+        Login: parseInt(this.accountId, 10),
+        PositionId: positionId,
+        PositionBy: oppositePositionId,
+      },
+    });
+    if (isTradeAccepted(fallback)) return toTradeResult(fallback);
+
+    throw toError(fallback, 'Failed to close position by opposite position');
+  }
+
+  /**
+   * Modify SL/TP of an open position. A value of 0 or less leaves that
+   * level out of the request.
+   */
+  async modifyPosition(params: ModifyPositionParams): Promise<TradeResult> {
+    const comment = params.comment || 'Modified via web terminal';
+    const hasSL = params.stopLoss !== undefined && params.stopLoss > 0;
+    const hasTP = params.takeProfit !== undefined && params.takeProfit > 0;
+
+    // Primary: POST /client/position/modify
+    const primary = await this.request('/client/position/modify', {
+      method: 'POST',
+      body: {
+        positionId: params.positionId,
+        comment,
+        ...(hasSL ? { stopLoss: params.stopLoss } : {}),
+        ...(hasTP ? { takeProfit: params.takeProfit } : {}),
+      },
+      timeoutMs: TRADE_MODIFY_TIMEOUT_MS,
+    });
+    if (isTradeAccepted(primary)) return toTradeResult(primary);
+
+    // Fallback: PUT /Trading/position/modify
+    const secondary = await this.request('/Trading/position/modify', {
+      method: 'PUT',
+      body: {
+        Login: parseInt(this.accountId, 10),
+        PositionId: params.positionId,
+        Comment: comment,
+        ...(hasSL ? { StopLoss: params.stopLoss } : {}),
+        ...(hasTP ? { TakeProfit: params.takeProfit } : {}),
+      },
+      timeoutMs: TRADE_MODIFY_TIMEOUT_MS,
+    });
+    if (isTradeAccepted(secondary)) return toTradeResult(secondary);
+
+    throw toError(primary, 'Failed to modify position');
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Notifications shown in the terminal's bell inbox. New notifications are
+ * also pushed to the user's open stream connections.
+ */
+
+import { prisma } from './db.js';
+import { getStreamGateway } from './streamGateway.js';
+
+export const NOTIFICATION_TYPES = [
+  'order_filled',
+  'order_placed',
+  'position_closed',
+  'close_all_failed',
+  'price_alert',
+  'order_link_failed',
+  'margin_warning',
+  'trailing_stop_disabled',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Write a notification for a user
+ */
+export async function createNotification(input: NotificationInput) {
+  const notification = await prisma.notification.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      metadata: input.metadata,
+    },
+  });
+  getStreamGateway()?.sendToUser(input.userId, { type: 'notification', data: notification });
+  return notification;
+}
+
+/**
+ * Write a notification without waiting on it. Used by trading routes,
+ * where a failed insert must not fail the trade response.
+ */
+export function notify(input: NotificationInput): void {
+  createNotification(input).catch((error) => {
+    console.error('[Notifications] Failed to write notification:', { type: input.type, error });
+  });
+}
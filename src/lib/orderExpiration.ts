@@ -0,0 +1,163 @@
+/**
+ * Time-in-force for pending orders.
+ *
+ * Modes follow MT5's ORDER_TYPE_TIME: 'gtc' (until cancelled), 'day' (until
+ * the end of the current day), 'specified' (until a date and time) and
+ * 'specified-day' (until the end of a given day). Day boundaries and
+ * datetimes without a UTC offset use the user's timezone setting.
+ */
+
+import { FieldError } from './validation.js';
+
+export const EXPIRATION_MODES = ['gtc', 'day', 'specified', 'specified-day'] as const;
+export type ExpirationMode = typeof EXPIRATION_MODES[number];
+
+// MT5 ENUM_ORDER_TYPE_TIME
+export const ORDER_TIME_TYPE: Record<ExpirationMode, number> = {
+  'gtc': 0,
+  'day': 1,
+  'specified': 2,
+  'specified-day': 3,
+};
+
+/** Expiration value the bridge reads as "never" */
+export const NO_EXPIRATION = '0001-01-01T00:00:00';
+
+/** Shortest lifetime accepted for a specified expiry */
+const MIN_LIFETIME_MS = 60 * 1000;
+
+export interface OrderExpiration {
+  mode: ExpirationMode;
+  /** ORDER_TYPE_TIME sent to the bridge */
+  typeTime: number;
+  /** Expiration sent to the bridge (UTC, no offset suffix) */
+  expiration: string;
+  expiresAt: Date | null;
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimezoneOffset(timeZone: string, at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in a timezone corresponds to
+ */
+function zonedTimeToUtc(
+  fields: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string
+): Date {
+  const guess = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour ?? 0, fields.minute ?? 0, fields.second ?? 0);
+  const offset = getTimezoneOffset(timeZone, new Date(guess - getTimezoneOffset(timeZone, new Date(guess))));
+  return new Date(guess - offset);
+}
+
+/**
+ * Calendar date of an instant in a timezone
+ */
+function zonedDate(at: Date, timeZone: string): { year: number; month: number; day: number } {
+  const shifted = new Date(at.getTime() + getTimezoneOffset(timeZone, at));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Last second of a calendar day in a timezone
+ */
+function endOfDay(date: { year: number; month: number; day: number }, timeZone: string): Date {
+  return zonedTimeToUtc({ ...date, hour: 23, minute: 59, second: 59 }, timeZone);
+}
+
+/**
+ * IANA zone for a timezone setting. 'local' is the browser's zone, which the
+ * server cannot know, so day boundaries fall back to UTC.
+ */
+function toTimeZone(setting: string | null | undefined): string {
+  return !setting || setting === 'utc' || setting === 'local' ? 'UTC' : setting;
+}
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Turn a request's expirationMode/expiration into what the bridge expects.
+ * @param timezone The user's TerminalSettings.timezone
+ */
+export function resolveExpiration(
+  input: { expirationMode?: unknown; expiration?: unknown },
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): { value: OrderExpiration; error?: undefined } | { value?: undefined; error: FieldError } {
+  const mode = (input.expirationMode ?? 'gtc') as ExpirationMode;
+  if (!EXPIRATION_MODES.includes(mode)) {
+    return { error: { field: 'expirationMode', message: `expirationMode must be one of ${EXPIRATION_MODES.join(', ')}` } };
+  }
+
+  const timeZone = toTimeZone(timezone);
+  const raw = typeof input.expiration === 'string' ? input.expiration.trim() : '';
+  let expiresAt: Date | null = null;
+
+  if (mode === 'day') {
+    expiresAt = endOfDay(zonedDate(now, timeZone), timeZone);
+  } else if (mode === 'specified-day') {
+    const match = DATE_ONLY.exec(raw);
+    if (!match) {
+      return { error: { field: 'expiration', message: 'expiration must be a date (YYYY-MM-DD) for specified-day orders' } };
+    }
+    expiresAt = endOfDay({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }, timeZone);
+    if (expiresAt.getTime() <= now.getTime()) {
+      return { error: { field: 'expiration', message: 'expiration day must be today or later' } };
+    }
+  } else if (mode === 'specified') {
+    if (!raw) {
+      return { error: { field: 'expiration', message: 'expiration is required for specified orders' } };
+    }
+    if (HAS_OFFSET.test(raw)) {
+      expiresAt = new Date(raw);
+    } else {
+      const match = DATE_TIME.exec(raw);
+      if (match && timezone === 'local') {
+        return { error: { field: 'expiration', message: 'Include a UTC offset in expiration when the timezone setting is local' } };
+      }
+      expiresAt = match
+        ? zonedTimeToUtc({
+          year: Number(match[1]),
+          month: Number(match[2]),
+          day: Number(match[3]),
+          hour: Number(match[4]),
+          minute: Number(match[5]),
+          second: Number(match[6] ?? 0),
+        }, timeZone)
+        : new Date(NaN);
+    }
+    if (Number.isNaN(expiresAt.getTime())) {
+      return { error: { field: 'expiration', message: 'expiration must be an ISO date and time' } };
+    }
+    if (expiresAt.getTime() < now.getTime() + MIN_LIFETIME_MS) {
+      return { error: { field: 'expiration', message: 'expiration must be at least a minute in the future' } };
+    }
+  }
+
+  return {
+    value: {
+      mode,
+      typeTime: ORDER_TIME_TYPE[mode],
+      expiration: expiresAt ? expiresAt.toISOString().slice(0, 19) : NO_EXPIRATION,
+      expiresAt,
+    },
+  };
+}
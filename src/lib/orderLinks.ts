@@ -0,0 +1,76 @@
+/**
+ * OCO and bracket links between pending orders.
+ *
+ * The bridge has no notion of linked orders, so the backend records them in
+ * the OrderLink table and the order link worker acts when an order fills.
+ */
+
+import { z } from 'zod';
+import { computeAutoTPSLLevels } from './autoTpsl.js';
+import { TradeSide } from './metaapi.js';
+import { FieldError } from './validation.js';
+
+export const ORDER_LINK_TYPES = ['oco', 'bracket'] as const;
+export type OrderLinkType = typeof ORDER_LINK_TYPES[number];
+
+export const ORDER_LINK_STATUSES = ['active', 'filled', 'cancelled', 'unlinked', 'failed'] as const;
+export type OrderLinkStatus = typeof ORDER_LINK_STATUSES[number];
+
+export const BRACKET_MODES = ['price', 'points', 'percent'] as const;
+
+export const bracketSchema = z.object({
+  mode: z.enum(BRACKET_MODES).default('price'),
+  stopLoss: z.coerce.number().positive().nullable().optional(),
+  takeProfit: z.coerce.number().positive().nullable().optional(),
+}).refine(bracket => bracket.stopLoss != null || bracket.takeProfit != null, {
+  message: 'Set stopLoss, takeProfit or both',
+});
+
+export type Bracket = z.infer<typeof bracketSchema>;
+
+/**
+ * Price-mode brackets must sit on the right side of the entry: below it
+ * for a buy's SL, above it for its TP, and the reverse for a sell.
+ * Distance modes are always on the right side.
+ */
+export function validateBracket(side: TradeSide, fillPrice: number, bracket: Bracket): FieldError[] {
+  if (bracket.mode !== 'price') return [];
+
+  const errors: FieldError[] = [];
+  const below = side === 'buy' ? 'below' : 'above';
+  const above = side === 'buy' ? 'above' : 'below';
+
+  if (bracket.stopLoss != null && (side === 'buy' ? bracket.stopLoss >= fillPrice : bracket.stopLoss <= fillPrice)) {
+    errors.push({ field: 'bracket.stopLoss', message: `stopLoss must be ${below} the entry price ${fillPrice}` });
+  }
+  if (bracket.takeProfit != null && (side === 'buy' ? bracket.takeProfit <= fillPrice : bracket.takeProfit >= fillPrice)) {
+    errors.push({ field: 'bracket.takeProfit', message: `takeProfit must be ${above} the entry price ${fillPrice}` });
+  }
+  return errors;
+}
+
+/**
+ * SL/TP prices for a filled bracket entry
+ * @param openPrice The position's actual open price
+ */
+export function resolveBracketLevels(
+  bracket: { bracketMode: string | null; stopLoss: number | null; takeProfit: number | null },
+  side: TradeSide,
+  openPrice: number,
+  instrument: { digits: number; point: number | null } | null
+): { stopLoss: number | null; takeProfit: number | null } {
+  const mode = bracket.bracketMode ?? 'price';
+  if (mode === 'price') {
+    return { stopLoss: bracket.stopLoss, takeProfit: bracket.takeProfit };
+  }
+  // Distances need the instrument's point size
+  if (!instrument) {
+    return { stopLoss: null, takeProfit: null };
+  }
+  return computeAutoTPSLLevels(
+    { mode, stopLoss: bracket.stopLoss, takeProfit: bracket.takeProfit },
+    side,
+    openPrice,
+    instrument
+  );
+}
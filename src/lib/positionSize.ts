@@ -0,0 +1,213 @@
+/**
+ * Position size calculator: the volume that loses a given amount (or share
+ * of the balance) if the stop-loss is hit.
+ *
+ * The value of a price move per lot comes from the first source available:
+ * the instrument's tickValue/tickSize (profit currency), the configured pip
+ * value in ib_symbol_spreads.pip_value or symbols_with_categories.pip_per_lot
+ * (USD), or contractSize (profit currency). It is then converted to the
+ * account currency at current quotes.
+ */
+
+import { z } from 'zod';
+import type { Instrument } from '@prisma/client';
+import { prisma } from './db.js';
+import { getMarketFeed } from './marketFeed.js';
+import { getPointSize } from './instruments.js';
+import { CALC_MODE, estimateMargin } from './tradeValidation.js';
+
+export const positionSizeSchema = z.object({
+  accountId: z.string().trim().min(1),
+  symbol: z.string().trim().min(1),
+  entry: z.coerce.number().positive(),
+  stopLoss: z.coerce.number().positive(),
+  riskAmount: z.coerce.number().positive().optional(),
+  riskPercent: z.coerce.number().positive().max(100).optional(),
+}).refine(body => (body.riskAmount === undefined) !== (body.riskPercent === undefined), {
+  message: 'Set either riskAmount or riskPercent',
+  path: ['riskAmount'],
+}).refine(body => body.entry !== body.stopLoss, {
+  message: 'stopLoss must differ from entry',
+  path: ['stopLoss'],
+});
+
+export type PositionSizeRequest = z.infer<typeof positionSizeSchema>;
+
+export type PipValueSource = 'tick' | 'ib_symbol_spreads' | 'symbols_with_categories' | 'contract';
+
+type InstrumentSpec = Pick<
+  Instrument,
+  'symbol' | 'digits' | 'point' | 'contractSize' | 'tickSize' | 'tickValue' | 'volumeStep' | 'minVolume' | 'maxVolume'
+  | 'currencyProfit'
+>;
+
+/**
+ * One pip: ten points on 3/5-digit quotes (fractional pips), else one point
+ */
+export function getPipSize(instrument: Pick<InstrumentSpec, 'digits' | 'point'>): number {
+  const point = getPointSize(instrument);
+  return instrument.digits === 3 || instrument.digits === 5 ? point * 10 : point;
+}
+
+/**
+ * Currency the symbol's P/L is in (falls back to the quote currency of a
+ * six-letter pair, then USD)
+ */
+export function getProfitCurrency(instrument: Pick<Instrument, 'symbol' | 'currencyProfit'>): string {
+  if (instrument.currencyProfit) return instrument.currencyProfit.toUpperCase();
+  const symbol = instrument.symbol.replace('/', '').toUpperCase();
+  return /^[A-Z]{6}$/.test(symbol) ? symbol.slice(3) : 'USD';
+}
+
+/**
+ * Rate to convert an amount from one currency to another at current mid
+ * prices, through USD when there is no direct pair
+ * @returns null when no quote is available
+ */
+export async function getConversionRate(from: string, to: string): Promise<number | null> {
+  const base = from.toUpperCase();
+  const quote = to.toUpperCase();
+  if (base === quote) return 1;
+
+  const feed = getMarketFeed();
+  const mid = (tick: { bid: number; ask: number } | null) => (tick && tick.bid > 0 && tick.ask > 0 ? (tick.bid + tick.ask) / 2 : null);
+
+  const direct = mid(await feed.getQuote(`${base}${quote}`));
+  if (direct) return direct;
+  const inverse = mid(await feed.getQuote(`${quote}${base}`));
+  if (inverse) return 1 / inverse;
+
+  if (base !== 'USD' && quote !== 'USD') {
+    const [toUsd, fromUsd] = await Promise.all([getConversionRate(base, 'USD'), getConversionRate('USD', quote)]);
+    if (toUsd && fromUsd) return toUsd * fromUsd;
+  }
+  return null;
+}
+
+/**
+ * Pip value per lot configured for the symbol (USD), if any
+ */
+async function getConfiguredPipValue(symbol: string): Promise<{ value: number; source: PipValueSource } | null> {
+  const symbolFilter = { equals: symbol.replace('/', ''), mode: 'insensitive' as const };
+  const [spread, category] = await Promise.all([
+    prisma.ib_symbol_spreads.findFirst({ where: { symbol: symbolFilter } }),
+    prisma.symbols_with_categories.findFirst({ where: { symbol: symbolFilter } }),
+  ]);
+
+  const spreadValue = Number(spread?.pip_value ?? 0);
+  if (spreadValue > 0) return { value: spreadValue, source: 'ib_symbol_spreads' };
+  const categoryValue = Number(category?.pip_per_lot ?? 0);
+  if (categoryValue > 0) return { value: categoryValue, source: 'symbols_with_categories' };
+  return null;
+}
+
+/**
+ * Value of one pip per lot in the account currency
+ * @returns null when the conversion rate is not available
+ */
+export async function resolvePipValue(
+  instrument: InstrumentSpec,
+  accountCurrency: string
+): Promise<{ value: number; source: PipValueSource; conversionRate: number } | null> {
+  const pipSize = getPipSize(instrument);
+  const profitCurrency = getProfitCurrency(instrument);
+
+  let pip: { value: number; source: PipValueSource; currency: string };
+  if (instrument.tickSize && instrument.tickValue) {
+    pip = { value: pipSize / instrument.tickSize * instrument.tickValue, source: 'tick', currency: profitCurrency };
+  } else {
+    const configured = await getConfiguredPipValue(instrument.symbol);
+    pip = configured
+      ? { ...configured, currency: 'USD' }
+      : { value: pipSize * instrument.contractSize, source: 'contract', currency: profitCurrency };
+  }
+
+  const conversionRate = await getConversionRate(pip.currency, accountCurrency);
+  if (conversionRate === null) return null;
+  return { value: pip.value * conversionRate, source: pip.source, conversionRate };
+}
+
+/**
+ * Margin for an order converted to the account currency at current quotes.
+ * Forex calc modes put the margin in the margin (base) currency, the others
+ * in the profit currency.
+ * @returns null when the conversion rate is not available
+ */
+export async function estimateMarginInAccountCurrency(params: {
+  instrument: Instrument;
+  volume: number;
+  price: number;
+  leverage: number;
+  accountCurrency: string;
+}): Promise<number | null> {
+  const { instrument } = params;
+  const inBaseCurrency = instrument.calcMode === null
+    || instrument.calcMode === CALC_MODE.FOREX
+    || instrument.calcMode === CALC_MODE.FOREX_NO_LEVERAGE;
+  const currency = inBaseCurrency && instrument.currencyMargin
+    ? instrument.currencyMargin
+    : getProfitCurrency(instrument);
+
+  const rate = await getConversionRate(currency, params.accountCurrency);
+  if (rate === null) return null;
+  // No accountCurrency: estimateMargin leaves the margin in its own currency
+  return estimateMargin({ instrument, volume: params.volume, price: params.price, leverage: params.leverage }) * rate;
+}
+
+export interface PositionSize {
+  /** Lots, rounded down to volumeStep and capped at maxVolume; 0 below minVolume */
+  volume: number;
+  /** Lots before rounding */
+  rawVolume: number;
+  stopDistance: number;
+  stopDistancePips: number;
+  /** Loss at the stop-loss for one lot */
+  riskPerLot: number;
+  /** Loss at the stop-loss for `volume` */
+  actualRisk: number;
+  warnings: string[];
+}
+
+/**
+ * Size a position so hitting the stop-loss loses at most riskMoney
+ * @param pipValue Value of one pip per lot in the account currency
+ */
+export function computePositionSize(params: {
+  instrument: InstrumentSpec;
+  entry: number;
+  stopLoss: number;
+  riskMoney: number;
+  pipValue: number;
+}): PositionSize {
+  const { instrument, entry, stopLoss, riskMoney, pipValue } = params;
+  const pipSize = getPipSize(instrument);
+  const stopDistance = Math.abs(entry - stopLoss);
+  const stopDistancePips = stopDistance / pipSize;
+  const riskPerLot = stopDistancePips * pipValue;
+  const rawVolume = riskPerLot > 0 ? riskMoney / riskPerLot : 0;
+
+  // Round down so the risk is never exceeded
+  const step = instrument.volumeStep > 0 ? instrument.volumeStep : 0.01;
+  const stepDecimals = Math.max(0, -Math.floor(Math.log10(step)));
+  let volume = Number((Math.floor(rawVolume / step + 1e-9) * step).toFixed(stepDecimals));
+
+  const warnings: string[] = [];
+  if (volume > instrument.maxVolume) {
+    volume = instrument.maxVolume;
+    warnings.push(`Volume capped at the maximum of ${instrument.maxVolume} lots`);
+  }
+  if (volume < instrument.minVolume) {
+    warnings.push(`Risk is too small for the minimum volume of ${instrument.minVolume} lots (risks ${(riskPerLot * instrument.minVolume).toFixed(2)})`);
+    volume = 0;
+  }
+
+  return {
+    volume,
+    rawVolume: Number(rawVolume.toFixed(4)),
+    stopDistance: Number(stopDistance.toFixed(instrument.digits)),
+    stopDistancePips: Number(stopDistancePips.toFixed(1)),
+    riskPerLot: Number(riskPerLot.toFixed(2)),
+    actualRisk: Number((riskPerLot * volume).toFixed(2)),
+    warnings,
+  };
+}
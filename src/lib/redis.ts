@@ -0,0 +1,39 @@
+import { Redis } from 'ioredis';
+import { env } from './env.js';
+
+// Shared Redis connection, created on first use so that deployments
+// without Redis never open a socket.
+
+let client: Redis | null = null;
+
+/**
+ * Whether Redis connection settings are present in the environment
+ */
+export function isRedisConfigured(): boolean {
+  return Boolean(env.REDIS_URL || env.REDIS_HOST);
+}
+
+/**
+ * Get the shared Redis client (REDIS_URL, or REDIS_HOST/PORT/PASSWORD)
+ */
+export function getRedis(): Redis {
+  if (client) return client;
+
+  // Fail fast instead of queueing forever so callers can fall back
+  const options = { maxRetriesPerRequest: 1 };
+
+  client = env.REDIS_URL
+    ? new Redis(env.REDIS_URL, options)
+    : new Redis({
+      host: env.REDIS_HOST || '127.0.0.1',
+      port: parseInt(env.REDIS_PORT || '6379', 10),
+      password: env.REDIS_PASSWORD || undefined,
+      ...options,
+    });
+
+  client.on('error', (error) => {
+    console.error('[Redis] Connection error:', error.message);
+  });
+
+  return client;
+}
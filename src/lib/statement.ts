@@ -0,0 +1,199 @@
+/**
+ * Account statements: closed trades plus deposits and withdrawals over a
+ * date range, with opening/closing balance and P/L totals.
+ *
+ * The bridge only reports the current balance, so the closing balance is
+ * worked back from it by undoing everything after the period, and the
+ * opening balance by undoing the period itself. Without the live balance
+ * there is no statement (502) rather than one built on a stale figure.
+ */
+
+import { z } from 'zod';
+import type { MT5Account } from '@prisma/client';
+import { prisma } from './db.js';
+import { MetaApiClient, MetaApiError } from './metaapi.js';
+import { extractAccountFigures } from './accountSnapshots.js';
+import { ClosedTrade, fetchClosedTrades, sortClosedTrades } from './tradeHistory.js';
+import { dateParam, rangeEndDateParam } from './validation.js';
+
+export const STATEMENT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+// MT5Transaction statuses that moved money
+const SETTLED_STATUSES = ['completed', 'approved', 'success'];
+
+export const statementQuerySchema = z.object({
+  from: dateParam,
+  to: rangeEndDateParam.optional(),
+  format: z.enum(STATEMENT_FORMATS).default('pdf'),
+}).refine(query => !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+  message: 'from must not be after to',
+  path: ['from'],
+});
+
+export interface StatementTransaction {
+  date: Date;
+  type: 'deposit' | 'withdrawal';
+  /** Positive for deposits, negative for withdrawals */
+  amount: number;
+  method: string | null;
+  reference: string | null;
+  comment: string | null;
+}
+
+export interface StatementSummary {
+  openingBalance: number;
+  closingBalance: number;
+  deposits: number;
+  withdrawals: number;
+  /** Gross P/L of closed trades */
+  totalProfit: number;
+  totalCommission: number;
+  totalSwap: number;
+  /** totalProfit + totalCommission + totalSwap */
+  netProfit: number;
+  tradeCount: number;
+}
+
+export interface Statement {
+  account: {
+    accountId: string;
+    name: string | null;
+    group: string | null;
+    currency: string;
+  };
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  trades: ClosedTrade[];
+  transactions: StatementTransaction[];
+  summary: StatementSummary;
+}
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+function toStatementTransaction(row: {
+  type: string;
+  amount: number;
+  createdAt: Date | null;
+  paymentMethod: string | null;
+  transactionId: string | null;
+  comment: string | null;
+}): StatementTransaction | null {
+  const type = row.type.toLowerCase();
+  if (type !== 'deposit' && type !== 'withdrawal' || !row.createdAt) return null;
+  return {
+    date: row.createdAt,
+    type,
+    amount: type === 'deposit' ? Math.abs(row.amount) : -Math.abs(row.amount),
+    method: row.paymentMethod,
+    reference: row.transactionId,
+    comment: row.comment,
+  };
+}
+
+/**
+ * Split activity since the start of the period at `to` and total the
+ * period, working the balances back from the current one
+ * @param trades Closed trades from the start of the period up to now
+ * @param transactions Deposits and withdrawals over the same span
+ */
+export function summarizeStatement<T extends Pick<ClosedTrade, 'closeTime' | 'profit' | 'commission' | 'swap' | 'netProfit'>>(params: {
+  trades: T[];
+  transactions: StatementTransaction[];
+  currentBalance: number;
+  to: Date;
+}): { periodTrades: T[]; periodTransactions: StatementTransaction[]; summary: StatementSummary } {
+  const { trades, transactions, currentBalance, to } = params;
+
+  const inPeriod = (time: number) => time <= to.getTime();
+  const periodTrades = trades.filter(trade => trade.closeTime && inPeriod(Date.parse(trade.closeTime)));
+  const laterTrades = trades.filter(trade => trade.closeTime && !inPeriod(Date.parse(trade.closeTime)));
+  const periodTransactions = transactions.filter(row => inPeriod(row.date.getTime()));
+  const laterTransactions = transactions.filter(row => !inPeriod(row.date.getTime()));
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const closingBalance = currentBalance
+    - sum(laterTrades.map(trade => trade.netProfit))
+    - sum(laterTransactions.map(row => row.amount));
+
+  const totalProfit = sum(periodTrades.map(trade => trade.profit));
+  const totalCommission = sum(periodTrades.map(trade => trade.commission));
+  const totalSwap = sum(periodTrades.map(trade => trade.swap));
+  const deposits = sum(periodTransactions.filter(row => row.amount > 0).map(row => row.amount));
+  const withdrawals = sum(periodTransactions.filter(row => row.amount < 0).map(row => -row.amount));
+  const netProfit = totalProfit + totalCommission + totalSwap;
+
+  return {
+    periodTrades,
+    periodTransactions,
+    summary: {
+      openingBalance: round2(closingBalance - netProfit - deposits + withdrawals),
+      closingBalance: round2(closingBalance),
+      deposits: round2(deposits),
+      withdrawals: round2(withdrawals),
+      totalProfit: round2(totalProfit),
+      totalCommission: round2(totalCommission),
+      totalSwap: round2(totalSwap),
+      netProfit: round2(netProfit),
+      tradeCount: periodTrades.length,
+    },
+  };
+}
+
+/**
+ * Gather the statement for an account between from and to (default now)
+ */
+export async function buildStatement(params: {
+  client: MetaApiClient;
+  mt5Account: MT5Account;
+  from: Date;
+  to?: Date;
+}): Promise<Statement> {
+  const { client, mt5Account, from } = params;
+  const generatedAt = new Date();
+  const to = params.to && params.to < generatedAt ? params.to : generatedAt;
+
+  // Everything from the start of the period up to now, so the activity
+  // after the period can be undone from the current balance
+  const [trades, transactionRows, balanceData] = await Promise.all([
+    fetchClosedTrades(client, { from: from.toISOString() }),
+    prisma.mT5Transaction.findMany({
+      where: { mt5AccountId: mt5Account.id, createdAt: { gte: from } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    client.getBalance(),
+  ]);
+
+  const transactions = transactionRows
+    .filter(row => SETTLED_STATUSES.includes((row.status ?? '').toLowerCase()))
+    .map(toStatementTransaction)
+    .filter((row): row is StatementTransaction => row !== null);
+
+  // A stored balance may be stale, which would shift every figure
+  const figures = extractAccountFigures(balanceData);
+  if (!figures) {
+    throw new MetaApiError('The bridge did not report the current balance the statement is worked back from', 502, balanceData);
+  }
+  const { periodTrades, periodTransactions, summary } = summarizeStatement({
+    trades,
+    transactions,
+    currentBalance: figures.balance,
+    to,
+  });
+
+  return {
+    account: {
+      accountId: mt5Account.accountId,
+      name: mt5Account.nameOnAccount,
+      group: mt5Account.group,
+      currency: mt5Account.currency || 'USD',
+    },
+    from,
+    to,
+    generatedAt,
+    trades: sortClosedTrades(periodTrades, { sort: 'closeTime', order: 'asc' }),
+    transactions: periodTransactions,
+    summary,
+  };
+}
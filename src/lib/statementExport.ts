@@ -0,0 +1,279 @@
+/**
+ * Statement rendering to CSV, XLSX and PDF. Everything is generated in
+ * process (exceljs, pdfkit with its built-in fonts); no external services.
+ */
+
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { Statement, StatementFormat } from './statement.js';
+
+export interface RenderedStatement {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * One line of the statement ledger: a closed trade or a balance operation
+ */
+interface LedgerRow {
+  time: string;
+  type: string;
+  ticket: string;
+  symbol: string;
+  side: string;
+  volume: number | null;
+  openTime: string;
+  openPrice: number | null;
+  closePrice: number | null;
+  commission: number | null;
+  swap: number | null;
+  profit: number | null;
+  amount: number;
+  balance: number;
+  comment: string;
+}
+
+const LEDGER_HEADERS = [
+  'Time (UTC)', 'Type', 'Ticket', 'Symbol', 'Side', 'Volume', 'Open Time (UTC)', 'Open Price',
+  'Close Price', 'Commission', 'Swap', 'Profit', 'Amount', 'Balance', 'Comment',
+];
+
+const formatTime = (value: Date | string | null) =>
+  value ? new Date(value).toISOString().slice(0, 19).replace('T', ' ') : '';
+
+const formatDate = (value: Date) => value.toISOString().slice(0, 10);
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Trades and balance operations in time order with a running balance
+ */
+function buildLedger(statement: Statement): LedgerRow[] {
+  const entries = [
+    ...statement.trades.map(trade => ({
+      at: trade.closeTime ? Date.parse(trade.closeTime) : 0,
+      row: {
+        time: formatTime(trade.closeTime),
+        type: 'trade',
+        ticket: String(trade.ticket),
+        symbol: trade.symbol,
+        side: trade.side ?? '',
+        volume: trade.volume,
+        openTime: formatTime(trade.openTime),
+        openPrice: trade.openPrice,
+        closePrice: trade.closePrice,
+        commission: trade.commission,
+        swap: trade.swap,
+        profit: trade.profit,
+        amount: trade.netProfit,
+        comment: trade.comment,
+      },
+    })),
+    ...statement.transactions.map(transaction => ({
+      at: transaction.date.getTime(),
+      row: {
+        time: formatTime(transaction.date),
+        type: transaction.type,
+        ticket: transaction.reference ?? '',
+        symbol: '',
+        side: '',
+        volume: null,
+        openTime: '',
+        openPrice: null,
+        closePrice: null,
+        commission: null,
+        swap: null,
+        profit: null,
+        amount: transaction.amount,
+        comment: [transaction.method, transaction.comment].filter(Boolean).join(' - '),
+      },
+    })),
+  ].sort((a, b) => a.at - b.at);
+
+  let balance = statement.summary.openingBalance;
+  return entries.map(({ row }) => {
+    balance += row.amount;
+    return { ...row, balance: Number(balance.toFixed(2)) };
+  });
+}
+
+function ledgerValues(row: LedgerRow): (string | number | null)[] {
+  return [
+    row.time, row.type, row.ticket, row.symbol, row.side, row.volume, row.openTime, row.openPrice,
+    row.closePrice, row.commission, row.swap, row.profit, row.amount, row.balance, row.comment,
+  ];
+}
+
+function summaryRows(statement: Statement): { label: string; value: number; money: boolean }[] {
+  const { summary } = statement;
+  const money = (label: string, value: number) => ({ label, value, money: true });
+  return [
+    money('Opening balance', summary.openingBalance),
+    money('Deposits', summary.deposits),
+    money('Withdrawals', summary.withdrawals),
+    money('Gross profit/loss', summary.totalProfit),
+    money('Commissions', summary.totalCommission),
+    money('Swaps', summary.totalSwap),
+    money('Net profit/loss', summary.netProfit),
+    money('Closing balance', summary.closingBalance),
+    { label: 'Closed trades', value: summary.tradeCount, money: false },
+  ];
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(statement: Statement): Buffer {
+  const lines = [LEDGER_HEADERS, ...buildLedger(statement).map(ledgerValues)]
+    .map(values => values.map(csvCell).join(','));
+  // BOM so spreadsheet apps pick up UTF-8
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+async function renderXlsx(statement: Statement): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = statement.generatedAt;
+
+  const summarySheet = workbook.addWorksheet('Summary');
+  summarySheet.columns = [{ width: 24 }, { width: 20 }];
+  summarySheet.addRows([
+    ['Account', statement.account.accountId],
+    ['Name', statement.account.name ?? ''],
+    ['Currency', statement.account.currency],
+    ['Period (UTC)', `${formatTime(statement.from)} - ${formatTime(statement.to)}`],
+    [],
+  ]);
+  for (const row of summaryRows(statement)) {
+    summarySheet.addRow([row.label, row.value]).getCell(2).numFmt = row.money ? '#,##0.00' : '0';
+  }
+
+  const ledgerSheet = workbook.addWorksheet('Statement');
+  ledgerSheet.addRow(LEDGER_HEADERS).font = { bold: true };
+  ledgerSheet.addRows(buildLedger(statement).map(ledgerValues));
+  ledgerSheet.columns.forEach((column, index) => {
+    column.width = index === LEDGER_HEADERS.length - 1 ? 30 : 14;
+  });
+  ledgerSheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// PDF ledger table columns (landscape A4)
+const PDF_COLUMNS: { header: string; width: number; align?: 'right' }[] = [
+  { header: 'Time (UTC)', width: 92 },
+  { header: 'Type', width: 52 },
+  { header: 'Ticket', width: 62 },
+  { header: 'Symbol', width: 60 },
+  { header: 'Side', width: 34 },
+  { header: 'Volume', width: 44, align: 'right' },
+  { header: 'Open', width: 60, align: 'right' },
+  { header: 'Close', width: 60, align: 'right' },
+  { header: 'Commission', width: 58, align: 'right' },
+  { header: 'Swap', width: 50, align: 'right' },
+  { header: 'Profit', width: 60, align: 'right' },
+  { header: 'Balance', width: 72, align: 'right' },
+];
+
+function renderPdf(statement: Statement): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 36 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const bottom = () => doc.page.height - doc.page.margins.bottom;
+    const { account } = statement;
+
+    doc.font('Helvetica-Bold').fontSize(16).text('Account Statement', left, 36);
+    doc.font('Helvetica').fontSize(9).moveDown(0.5)
+      .text(`Account: ${account.accountId}${account.name ? ` (${account.name})` : ''}`)
+      .text(`Period: ${formatDate(statement.from)} to ${formatDate(statement.to)} (UTC)`)
+      .text(`Currency: ${account.currency}`)
+      .text(`Generated: ${formatTime(statement.generatedAt)} UTC`);
+
+    // Summary block, two columns of label/value pairs
+    doc.moveDown();
+    const summaryTop = doc.y;
+    const summary = summaryRows(statement);
+    summary.forEach((row, index) => {
+      const x = left + (index % 2) * 260;
+      const y = summaryTop + Math.floor(index / 2) * 14;
+      doc.font('Helvetica').text(row.label, x, y, { width: 130 });
+      doc.font('Helvetica-Bold').text(row.money ? formatMoney(row.value) : String(row.value), x + 130, y, { width: 100, align: 'right' });
+    });
+    doc.y = summaryTop + Math.ceil(summary.length / 2) * 14 + 16;
+
+    const drawHeader = () => {
+      let x = left;
+      const y = doc.y;
+      doc.font('Helvetica-Bold').fontSize(8);
+      for (const column of PDF_COLUMNS) {
+        doc.text(column.header, x, y, { width: column.width - 4, align: column.align ?? 'left' });
+        x += column.width;
+      }
+      const lineY = y + 11;
+      doc.moveTo(left, lineY).lineTo(x, lineY).stroke();
+      doc.y = lineY + 4;
+      doc.font('Helvetica').fontSize(8);
+    };
+
+    const ledger = buildLedger(statement);
+    drawHeader();
+    if (ledger.length === 0) {
+      doc.text('No trades or balance operations in this period.', left, doc.y);
+    }
+    for (const row of ledger) {
+      if (doc.y + 12 > bottom()) {
+        doc.addPage();
+        doc.y = doc.page.margins.top;
+        drawHeader();
+      }
+      const y = doc.y;
+      const values = [
+        row.time, row.type, row.ticket, row.symbol, row.side,
+        row.volume === null ? '' : String(row.volume),
+        row.openPrice === null ? '' : String(row.openPrice),
+        row.closePrice === null ? '' : String(row.closePrice),
+        row.commission === null ? '' : formatMoney(row.commission),
+        row.swap === null ? '' : formatMoney(row.swap),
+        formatMoney(row.profit ?? row.amount),
+        formatMoney(row.balance),
+      ];
+      let x = left;
+      values.forEach((value, index) => {
+        const column = PDF_COLUMNS[index];
+        doc.text(value, x, y, { width: column.width - 4, align: column.align ?? 'left', lineBreak: false });
+        x += column.width;
+      });
+      doc.y = y + 12;
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Render a statement in the requested format
+ */
+export async function renderStatement(statement: Statement, format: StatementFormat): Promise<RenderedStatement> {
+  const filename = `statement_${statement.account.accountId}_${formatDate(statement.from)}_${formatDate(statement.to)}.${format}`;
+  switch (format) {
+    case 'csv':
+      return { body: renderCsv(statement), contentType: 'text/csv; charset=utf-8', filename };
+    case 'xlsx':
+      return {
+        body: await renderXlsx(statement),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        filename,
+      };
+    case 'pdf':
+      return { body: await renderPdf(statement), contentType: 'application/pdf', filename };
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * WebSocket streaming gateway.
+ *
+ * Clients connect to /ws with the same JWT used by authenticateToken (Bearer
+ * header, `token` cookie or `?token=` query), then send JSON messages:
+ *
+ *   { "type": "subscribe", "symbols": ["EURUSD"], "accounts": ["123456"] }
+ *   { "type": "unsubscribe", "symbols": ["EURUSD"] }
+ *   { "type": "ping" }
+ *
+ * and receive `tick`, `positions` and `order` events pushed from the market feed,
+ * plus `notification` events for the connected user (see lib/notifications.ts).
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { z } from 'zod';
+import { verifyToken } from './auth.js';
+import { prisma } from './db.js';
+import { getMarketFeed, MarketFeed, normalizeSymbol, OrderUpdate, PositionsUpdate, Tick } from './marketFeed.js';
+
+const STREAM_PATH = '/ws';
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_SYMBOLS_PER_CLIENT = 200;
+
+const subscriptionSchema = {
+  symbols: z.array(z.string().min(1)).max(MAX_SYMBOLS_PER_CLIENT).optional(),
+  accounts: z.array(z.string().min(1)).max(20).optional(),
+};
+
+const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('subscribe'), ...subscriptionSchema }),
+  z.object({ type: z.literal('unsubscribe'), ...subscriptionSchema }),
+  z.object({ type: z.literal('ping') }),
+]);
+
+type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+interface StreamClient {
+  socket: WebSocket;
+  userId: string;
+  symbols: Set<string>;
+  /** MT5 login numbers */
+  accounts: Set<string>;
+  alive: boolean;
+}
+
+/**
+ * Read the JWT from the Authorization header, `token` cookie or query string
+ */
+function getRequestToken(req: IncomingMessage): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  const cookieToken = (req.headers.cookie || '')
+    .split(';')
+    .map(part => part.trim().split('='))
+    .find(([name]) => name === 'token')?.[1];
+  if (cookieToken) {
+    return decodeURIComponent(cookieToken);
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  return url.searchParams.get('token');
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export class StreamGateway {
+  private wss: WebSocketServer;
+  private feed: MarketFeed;
+  private clients: Set<StreamClient> = new Set();
+  private heartbeat: NodeJS.Timeout;
+
+  /**
+   * @param server HTTP server to attach the /ws upgrade handler to
+   * @param feed Upstream feed (tests can pass a LocalMarketFeed)
+   */
+  constructor(server: Server, feed: MarketFeed = getMarketFeed()) {
+    this.feed = feed;
+    this.wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+
+    this.feed.on('tick', this.onTick);
+    this.feed.on('positions', this.onPositions);
+    this.feed.on('order', this.onOrder);
+
+    // Drop connections that stopped answering pings
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        if (!client.alive) {
+          client.socket.terminate();
+          continue;
+        }
+        client.alive = false;
+        client.socket.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Disconnect all clients and stop listening to the feed
+   */
+  close(): void {
+    clearInterval(this.heartbeat);
+    this.feed.off('tick', this.onTick);
+    this.feed.off('positions', this.onPositions);
+    this.feed.off('order', this.onOrder);
+    for (const client of this.clients) {
+      client.socket.close(1001, 'Server shutting down');
+    }
+    this.wss.close();
+  }
+
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== STREAM_PATH) {
+      // Not ours - leave other upgrade handlers alone
+      return;
+    }
+
+    const token = getRequestToken(req);
+    const payload = token ? verifyToken(token) : null;
+    if (!payload?.userId) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    const userId = payload.userId;
+    this.wss.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws, userId));
+  }
+
+  private handleConnection(socket: WebSocket, userId: string): void {
+    const client: StreamClient = {
+      socket,
+      userId,
+      symbols: new Set(),
+      accounts: new Set(),
+      alive: true,
+    };
+    this.clients.add(client);
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+
+    socket.on('message', (raw) => {
+      let message: ClientMessage;
+      try {
+        message = clientMessageSchema.parse(JSON.parse(raw.toString()));
+      } catch {
+        this.send(client, { type: 'error', error: 'INVALID_MESSAGE', message: 'Invalid message format' });
+        return;
+      }
+
+      this.handleMessage(client, message).catch((error) => {
+        console.error('[Stream] Message handling failed:', error);
+        this.send(client, { type: 'error', error: 'INTERNAL_ERROR', message: 'Failed to process message' });
+      });
+    });
+
+    socket.on('close', () => {
+      this.clients.delete(client);
+      this.releaseSubscriptions(client).catch((error) => {
+        console.error('[Stream] Failed to release subscriptions:', error);
+      });
+    });
+
+    this.send(client, { type: 'connected' });
+  }
+
+  private async handleMessage(client: StreamClient, message: ClientMessage): Promise<void> {
+    if (message.type === 'ping') {
+      this.send(client, { type: 'pong', time: Date.now() });
+      return;
+    }
+
+    if (message.type === 'subscribe') {
+      await this.subscribe(client, message.symbols ?? [], message.accounts ?? []);
+    } else {
+      await this.unsubscribe(client, message.symbols ?? [], message.accounts ?? []);
+    }
+
+    this.send(client, {
+      type: 'subscriptions',
+      symbols: [...client.symbols],
+      accounts: [...client.accounts],
+    });
+  }
+
+  private async subscribe(client: StreamClient, symbols: string[], accounts: string[]): Promise<void> {
+    const newSymbols = [...new Set(symbols.map(normalizeSymbol))].filter(symbol => !client.symbols.has(symbol));
+    if (client.symbols.size + newSymbols.length > MAX_SYMBOLS_PER_CLIENT) {
+      this.send(client, { type: 'error', error: 'TOO_MANY_SYMBOLS', message: `At most ${MAX_SYMBOLS_PER_CLIENT} symbols per connection` });
+      return;
+    }
+
+    newSymbols.forEach(symbol => client.symbols.add(symbol));
+    await this.feed.subscribeSymbols(newSymbols);
+
+    // Send the last known price right away so the UI doesn't wait for the next tick
+    for (const symbol of newSymbols) {
+      const tick = this.feed.getLastTick(symbol);
+      if (tick) this.send(client, { type: 'tick', data: tick });
+    }
+
+    for (const accountId of accounts) {
+      const mt5Account = await this.findAccount(client, accountId);
+      // The socket closed while the account was looked up and its subscriptions are already released
+      if (!this.clients.has(client)) return;
+
+      if (!mt5Account) {
+        this.send(client, { type: 'error', error: 'ACCOUNT_NOT_FOUND', message: `MT5 account not found: ${accountId}`, accountId });
+        continue;
+      }
+      if (client.accounts.has(mt5Account.accountId)) continue;
+
+      client.accounts.add(mt5Account.accountId);
+      await this.feed.subscribeAccount(mt5Account);
+    }
+  }
+
+  private async unsubscribe(client: StreamClient, symbols: string[], accounts: string[]): Promise<void> {
+    const removedSymbols = [...new Set(symbols.map(normalizeSymbol))].filter(symbol => client.symbols.has(symbol));
+    removedSymbols.forEach(symbol => client.symbols.delete(symbol));
+    await this.feed.unsubscribeSymbols(removedSymbols);
+
+    for (const accountId of accounts) {
+      // Subscriptions are held by MT5 login; a database id is resolved to it
+      const login = client.accounts.has(accountId)
+        ? accountId
+        : (await this.findAccount(client, accountId))?.accountId;
+      if (!login || !client.accounts.delete(login)) continue;
+      await this.feed.unsubscribeAccount(login);
+    }
+  }
+
+  /**
+   * One of the user's MT5 accounts by database id or login
+   */
+  private async findAccount(client: StreamClient, accountId: string) {
+    return prisma.mT5Account.findFirst({
+      where: {
+        userId: client.userId,
+        OR: [
+          { id: accountId },
+          { accountId: accountId }
+        ],
+        archived: false,
+      },
+      select: { accountId: true, password: true },
+    });
+  }
+
+  private async releaseSubscriptions(client: StreamClient): Promise<void> {
+    await this.feed.unsubscribeSymbols([...client.symbols]);
+    for (const accountId of client.accounts) {
+      await this.feed.unsubscribeAccount(accountId);
+    }
+    client.symbols.clear();
+    client.accounts.clear();
+  }
+
+  /**
+   * Push a message to every connection of a user on this instance
+   */
+  sendToUser(userId: string, message: Record<string, unknown>): void {
+    for (const client of this.clients) {
+      if (client.userId === userId) {
+        this.send(client, message);
+      }
+    }
+  }
+
+  private send(client: StreamClient, message: Record<string, unknown>): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private onTick = (tick: Tick): void => {
+    for (const client of this.clients) {
+      if (client.symbols.has(tick.symbol)) {
+        this.send(client, { type: 'tick', data: tick });
+      }
+    }
+  };
+
+  private onPositions = (update: PositionsUpdate): void => {
+    for (const client of this.clients) {
+      if (client.accounts.has(update.accountId)) {
+        this.send(client, { type: 'positions', accountId: update.accountId, data: update.positions });
+      }
+    }
+  };
+
+  private onOrder = (update: OrderUpdate): void => {
+    for (const client of this.clients) {
+      if (client.accounts.has(update.accountId)) {
+        this.send(client, { type: 'order', accountId: update.accountId, data: update.order });
+      }
+    }
+  };
+}
+
+let gateway: StreamGateway | null = null;
+
+/**
+ * Attach the streaming gateway to the HTTP server (once)
+ */
+export function attachStreamGateway(server: Server): StreamGateway {
+  if (!gateway) {
+    gateway = new StreamGateway(server);
+  }
+  return gateway;
+}
+
+/**
+ * The attached gateway, if the server has started one
+ */
+export function getStreamGateway(): StreamGateway | null {
+  return gateway;
+}
@@ -0,0 +1,85 @@
+/**
+ * Per-user terminal preferences (TerminalSettings)
+ */
+
+import { z } from 'zod';
+import { prisma } from './db.js';
+
+export const OPEN_ORDER_MODES = ['regular', 'one-click'] as const;
+export const PRICE_SOURCES = ['bid', 'ask', 'mid'] as const;
+export const APPEARANCES = ['dark', 'light', 'system'] as const;
+
+/**
+ * Whether a timezone setting is usable: 'utc', 'local' (browser time) or an
+ * IANA zone name such as 'Europe/London'
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (timezone === 'utc' || timezone === 'local') return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const terminalSettingsSchema = z.object({
+  showOnChart: z.boolean(),
+  showSignals: z.boolean(),
+  showHMR: z.boolean(),
+  showPriceAlerts: z.boolean(),
+  showOpenPositions: z.boolean(),
+  showTPSL: z.boolean(),
+  showEconomicCalendar: z.boolean(),
+  economicCalendarHighImpact: z.boolean(),
+  economicCalendarMiddleImpact: z.boolean(),
+  economicCalendarLowImpact: z.boolean(),
+  economicCalendarLowestImpact: z.boolean(),
+  priceAlertSound: z.boolean(),
+  closingSound: z.boolean(),
+  autoTPSL: z.boolean(),
+  // Optional so clients that predate it can still PUT their settings
+  autoTPSLRequireQuote: z.boolean().optional(),
+  openOrderMode: z.enum(OPEN_ORDER_MODES),
+  priceSource: z.enum(PRICE_SOURCES),
+  appearance: z.enum(APPEARANCES),
+  timezone: z.string().trim().refine(isValidTimezone, 'Invalid timezone'),
+}).strict();
+
+export type TerminalSettingsValues = z.infer<typeof terminalSettingsSchema>;
+
+/**
+ * Defaults, matching the column defaults in schema.prisma
+ */
+export const TERMINAL_SETTINGS_DEFAULTS: TerminalSettingsValues = {
+  showOnChart: true,
+  showSignals: false,
+  showHMR: true,
+  showPriceAlerts: true,
+  showOpenPositions: true,
+  showTPSL: true,
+  showEconomicCalendar: true,
+  economicCalendarHighImpact: true,
+  economicCalendarMiddleImpact: false,
+  economicCalendarLowImpact: false,
+  economicCalendarLowestImpact: false,
+  priceAlertSound: false,
+  closingSound: false,
+  autoTPSL: false,
+  autoTPSLRequireQuote: true,
+  openOrderMode: 'regular',
+  priceSource: 'bid',
+  appearance: 'dark',
+  timezone: 'utc',
+};
+
+/**
+ * Get a user's settings, creating the default row on first access
+ */
+export async function getTerminalSettings(userId: string) {
+  return prisma.terminalSettings.upsert({
+    where: { userId },
+    update: {},
+    create: { userId },
+  });
+}
@@ -1,19 +1,84 @@
+import type { Redis } from 'ioredis';
+import { env } from './env.js';
+import { getRedis, isRedisConfigured } from './redis.js';
+
 /**
- * In-memory cache for MetaAPI tokens to reduce login overhead.
+ * Cache for MetaAPI tokens to reduce login overhead.
+ *
+ * The backend is chosen by TOKEN_CACHE_DRIVER ('memory' or 'redis'). When it
+ * is not set, Redis is used if REDIS_URL/REDIS_HOST is configured.
  */
-class TokenCache {
-    private cache: Map<string, { token: string; expiresAt: number }> = new Map();
 
+// Tokens are treated as expired 2 minutes early as a safety buffer
+const EXPIRY_BUFFER_MS = 120000;
+
+/**
+ * Per-account login bookkeeping
+ */
+export interface TokenMetadata {
+    lastLoginAt: Date | null;
+    lastFailureAt: Date | null;
+    /** Consecutive failed logins since the last successful one */
+    failureCount: number;
+}
+
+export interface TokenCache {
     /**
      * Get a token from the cache if it's still valid.
      * @param accountId MT5 account ID
      */
-    get(accountId: string): string | null {
+    get(accountId: string): Promise<string | null>;
+
+    /**
+     * Store a token in the cache.
+     * @param accountId MT5 account ID
+     * @param token Access token
+     * @param ttlSeconds TTL in seconds (default: 3600 = 1 hour)
+     */
+    set(accountId: string, token: string, ttlSeconds?: number): Promise<void>;
+
+    /**
+     * Clear the cache for an account.
+     * @param accountId MT5 account ID
+     * @param token If given, only clear when this is still the cached token
+     *              (so a token refreshed by a concurrent request survives)
+     */
+    clear(accountId: string, token?: string): Promise<void>;
+
+    /**
+     * Login bookkeeping for an account.
+     */
+    getMetadata(accountId: string): Promise<TokenMetadata>;
+
+    /**
+     * Record a successful login (resets the failure count).
+     */
+    recordLogin(accountId: string): Promise<void>;
+
+    /**
+     * Record a failed login.
+     */
+    recordFailure(accountId: string): Promise<void>;
+}
+
+const emptyMetadata = (): TokenMetadata => ({
+    lastLoginAt: null,
+    lastFailureAt: null,
+    failureCount: 0,
+});
+
+/**
+ * Process-local cache. Tokens are lost on restart and not shared between instances.
+ */
+export class MemoryTokenCache implements TokenCache {
+    private cache: Map<string, { token: string; expiresAt: number }> = new Map();
+    private metadata: Map<string, TokenMetadata> = new Map();
+
+    async get(accountId: string): Promise<string | null> {
         const entry = this.cache.get(accountId);
         if (!entry) return null;
 
-        // Check if the token is still valid (with a 2-minute safety buffer)
-        if (Date.now() < entry.expiresAt - 120000) {
+        if (Date.now() < entry.expiresAt - EXPIRY_BUFFER_MS) {
             return entry.token;
         }
 
@@ -22,25 +87,162 @@ class TokenCache {
         return null;
     }
 
-    /**
-     * Store a token in the cache.
-     * @param accountId MT5 account ID
-     * @param token Access token
-     * @param ttlSeconds TTL in seconds (default: 3600 = 1 hour)
-     */
-    set(accountId: string, token: string, ttlSeconds: number = 3600): void {
+    async set(accountId: string, token: string, ttlSeconds: number = 3600): Promise<void> {
         this.cache.set(accountId, {
             token,
             expiresAt: Date.now() + ttlSeconds * 1000,
         });
     }
 
+    async clear(accountId: string, token?: string): Promise<void> {
+        if (token !== undefined && this.cache.get(accountId)?.token !== token) {
+            return;
+        }
+        this.cache.delete(accountId);
+    }
+
+    async getMetadata(accountId: string): Promise<TokenMetadata> {
+        return { ...(this.metadata.get(accountId) ?? emptyMetadata()) };
+    }
+
+    async recordLogin(accountId: string): Promise<void> {
+        const meta = this.metadata.get(accountId) ?? emptyMetadata();
+        this.metadata.set(accountId, { ...meta, lastLoginAt: new Date(), failureCount: 0 });
+    }
+
+    async recordFailure(accountId: string): Promise<void> {
+        const meta = this.metadata.get(accountId) ?? emptyMetadata();
+        this.metadata.set(accountId, {
+            ...meta,
+            lastFailureAt: new Date(),
+            failureCount: meta.failureCount + 1,
+        });
+    }
+}
+
+// Delete the token hash only if it still holds the given token
+const CLEAR_IF_MATCH_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'token') == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis-backed cache shared by all instances. Redis errors are logged and
+ * treated as cache misses so a Redis outage only costs extra logins.
+ */
+export class RedisTokenCache implements TokenCache {
+    private redis: Redis;
+    private prefix: string;
+
     /**
-     * Clear the cache for an account.
+     * @param redis Connected client (tests can pass a local stand-in)
+     * @param prefix Key prefix
      */
-    clear(accountId: string): void {
-        this.cache.delete(accountId);
+    constructor(redis: Redis, prefix: string = 'metaapi:') {
+        this.redis = redis;
+        this.prefix = prefix;
+    }
+
+    private tokenKey(accountId: string): string {
+        return `${this.prefix}token:${accountId}`;
+    }
+
+    private metadataKey(accountId: string): string {
+        return `${this.prefix}meta:${accountId}`;
+    }
+
+    async get(accountId: string): Promise<string | null> {
+        try {
+            const entry = await this.redis.hgetall(this.tokenKey(accountId));
+            if (!entry?.token) return null;
+
+            if (Date.now() < Number(entry.expiresAt) - EXPIRY_BUFFER_MS) {
+                return entry.token;
+            }
+            return null;
+        } catch (error) {
+            console.error('[TokenCache] Redis get failed:', error);
+            return null;
+        }
+    }
+
+    async set(accountId: string, token: string, ttlSeconds: number = 3600): Promise<void> {
+        const key = this.tokenKey(accountId);
+        try {
+            await this.redis
+                .multi()
+                .hset(key, { token, expiresAt: String(Date.now() + ttlSeconds * 1000) })
+                .expire(key, ttlSeconds)
+                .exec();
+        } catch (error) {
+            console.error('[TokenCache] Redis set failed:', error);
+        }
+    }
+
+    async clear(accountId: string, token?: string): Promise<void> {
+        const key = this.tokenKey(accountId);
+        try {
+            if (token === undefined) {
+                await this.redis.del(key);
+            } else {
+                await this.redis.eval(CLEAR_IF_MATCH_SCRIPT, 1, key, token);
+            }
+        } catch (error) {
+            console.error('[TokenCache] Redis clear failed:', error);
+        }
+    }
+
+    async getMetadata(accountId: string): Promise<TokenMetadata> {
+        try {
+            const meta = await this.redis.hgetall(this.metadataKey(accountId));
+            return {
+                lastLoginAt: meta?.lastLoginAt ? new Date(Number(meta.lastLoginAt)) : null,
+                lastFailureAt: meta?.lastFailureAt ? new Date(Number(meta.lastFailureAt)) : null,
+                failureCount: Number(meta?.failureCount || 0),
+            };
+        } catch (error) {
+            console.error('[TokenCache] Redis metadata read failed:', error);
+            return emptyMetadata();
+        }
+    }
+
+    async recordLogin(accountId: string): Promise<void> {
+        try {
+            await this.redis.hset(this.metadataKey(accountId), {
+                lastLoginAt: String(Date.now()),
+                failureCount: '0',
+            });
+        } catch (error) {
+            console.error('[TokenCache] Redis metadata write failed:', error);
+        }
+    }
+
+    async recordFailure(accountId: string): Promise<void> {
+        const key = this.metadataKey(accountId);
+        try {
+            await this.redis
+                .multi()
+                .hset(key, { lastFailureAt: String(Date.now()) })
+                .hincrby(key, 'failureCount', 1)
+                .exec();
+        } catch (error) {
+            console.error('[TokenCache] Redis metadata write failed:', error);
+        }
+    }
+}
+
+/**
+ * Build the cache backend selected by configuration
+ */
+export function createTokenCache(): TokenCache {
+    const driver = env.TOKEN_CACHE_DRIVER || (isRedisConfigured() ? 'redis' : 'memory');
+
+    if (driver === 'redis') {
+        return new RedisTokenCache(getRedis());
     }
+    return new MemoryTokenCache();
 }
 
-export const tokenCache = new TokenCache();
+export const tokenCache = createTokenCache();
@@ -0,0 +1,267 @@
+/**
+ * Closed trade history.
+ *
+ * The bridge returns every trade in a date range in one response, so
+ * filtering, sorting and cursor pagination happen here. Rows keep their
+ * bridge fields and gain normalized camelCase ones (see ClosedTrade).
+ */
+
+import { z } from 'zod';
+import { extractSide, MetaApiClient, TradeSide } from './metaapi.js';
+import { withVolumeLots } from './volumeScale.js';
+import { dateParam, rangeEndDateParam, toRangeEnd } from './validation.js';
+
+export const CLOSED_TRADE_SORTS = ['closeTime', 'openTime', 'profit', 'symbol', 'volume'] as const;
+export type ClosedTradeSort = typeof CLOSED_TRADE_SORTS[number];
+
+const MAX_PAGE_SIZE = 500;
+/** Page size when a cursor is given without a limit */
+export const DEFAULT_PAGE_SIZE = 100;
+
+export const closedTradeQuerySchema = z.object({
+  from: dateParam.optional(),
+  to: rangeEndDateParam.optional(),
+  symbol: z.string().trim().min(1).optional(),
+  side: z.enum(['buy', 'sell']).optional(),
+  sort: z.enum(CLOSED_TRADE_SORTS).default('closeTime'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  cursor: z.string().trim().min(1).optional(),
+}).refine(query => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+  message: 'from must not be after to',
+  path: ['from'],
+});
+
+export type ClosedTradeQuery = z.infer<typeof closedTradeQuerySchema>;
+
+export interface ClosedTrade {
+  ticket: number;
+  positionId: number | null;
+  symbol: string;
+  side: TradeSide | null;
+  volume: number;
+  openPrice: number | null;
+  closePrice: number | null;
+  /** ISO timestamps, null when the bridge does not report them */
+  openTime: string | null;
+  closeTime: string | null;
+  profit: number;
+  commission: number;
+  swap: number;
+  /** profit + commission + swap */
+  netProfit: number;
+  comment: string;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Bridge times come as epoch seconds, epoch milliseconds or ISO strings
+ * without an offset (server time is UTC)
+ */
+function toIsoTime(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  let time: number;
+  if (typeof value === 'number') {
+    time = value < 1e12 ? value * 1000 : value;
+  } else {
+    const raw = String(value).trim();
+    time = Date.parse(/(Z|[+-]\d{2}:?\d{2})$/i.test(raw) ? raw : `${raw}Z`);
+  }
+  // MT5 reports unset times as 1970-01-01
+  return Number.isFinite(time) && time > 0 ? new Date(time).toISOString() : null;
+}
+
+/**
+ * MT5 deal entry (DEAL_ENTRY_*) of a history row, as a name.
+ * Undefined when the bridge does not report it.
+ */
+function getDealEntry(trade: any): 'in' | 'out' | 'inout' | 'out_by' | undefined {
+  const entry = trade.Entry ?? trade.entry ?? trade.DealEntry ?? trade.dealEntry;
+  if (entry === undefined || entry === null || entry === '') return undefined;
+  if (typeof entry === 'number') return (['in', 'out', 'inout', 'out_by'] as const)[entry];
+
+  const name = String(entry).toLowerCase().replace(/^deal_entry_/, '');
+  if (name === 'in' || name === 'out' || name === 'inout' || name === 'out_by') return name;
+  return undefined;
+}
+
+/**
+ * Filter out bridge rows that are not real closed trades
+ * (balance operations, opening deals, zero-volume or zero-price entries).
+ * Break-even trades (profit 0) are kept when the row's deal entry shows it
+ * closed a position; without one they cannot be told apart from opening
+ * deals, which also have no profit, so they are dropped.
+ */
+export function isClosedTrade(trade: any): boolean {
+  const orderId = trade.OrderId ?? trade.orderId ?? trade.DealId ?? trade.dealId ?? 0;
+  const symbol = (trade.Symbol || trade.symbol || '').trim();
+  const price = trade.Price ?? trade.price ?? trade.ClosePrice ?? trade.closePrice ?? 0;
+  const volumeLots = trade.VolumeLots ?? trade.volumeLots ?? trade.Volume ?? trade.volume ?? 0;
+
+  if (!(Number(orderId) > 0 && symbol.length > 0 && Number(price) > 0 && Number(volumeLots) > 0)) return false;
+
+  const entry = getDealEntry(trade);
+  if (entry === undefined) return Number(trade.Profit ?? trade.profit ?? 0) !== 0;
+  return entry !== 'in';
+}
+
+/**
+ * Normalized fields for a closed trade row (expects `volumeLots` from withVolumeLots)
+ */
+export function normalizeClosedTrade(trade: any): ClosedTrade {
+  const profit = toNumber(trade.Profit ?? trade.profit) ?? 0;
+  const commission = toNumber(trade.Commission ?? trade.commission) ?? 0;
+  const swap = toNumber(trade.Swap ?? trade.swap ?? trade.Storage ?? trade.storage) ?? 0;
+
+  return {
+    ticket: toNumber(trade.DealId ?? trade.dealId ?? trade.OrderId ?? trade.orderId ?? trade.Ticket ?? trade.ticket) ?? 0,
+    positionId: toNumber(trade.PositionId ?? trade.positionId),
+    symbol: String(trade.Symbol ?? trade.symbol ?? '').trim(),
+    side: extractSide(trade),
+    volume: toNumber(trade.VolumeLots ?? trade.volumeLots ?? trade.Volume ?? trade.volume) ?? 0,
+    openPrice: toNumber(trade.OpenPrice ?? trade.openPrice ?? trade.PriceOpen ?? trade.priceOpen),
+    closePrice: toNumber(trade.ClosePrice ?? trade.closePrice ?? trade.Price ?? trade.price),
+    openTime: toIsoTime(trade.OpenTime ?? trade.openTime ?? trade.TimeOpen ?? trade.timeOpen),
+    closeTime: toIsoTime(trade.CloseTime ?? trade.closeTime ?? trade.TimeClose ?? trade.timeClose ?? trade.Time ?? trade.time),
+    profit,
+    commission,
+    swap,
+    netProfit: Number((profit + commission + swap).toFixed(2)),
+    comment: String(trade.Comment ?? trade.comment ?? ''),
+  };
+}
+
+/**
+ * Date range to request from the bridge. It takes whole days, so the range
+ * is widened here and trimmed precisely by filterClosedTrades.
+ */
+export function toBridgeDateRange(query: Pick<ClosedTradeQuery, 'from' | 'to'>): { fromDate?: string; toDate?: string } {
+  const day = (time: number) => new Date(time).toISOString().slice(0, 10);
+  return {
+    fromDate: query.from ? day(Date.parse(query.from)) : undefined,
+    toDate: query.to ? day(Date.parse(query.to) + 24 * 60 * 60 * 1000) : undefined,
+  };
+}
+
+/**
+ * Apply the from/to (on close time), symbol and side filters. A date-only
+ * `to` includes that whole day.
+ */
+export function filterClosedTrades<T extends ClosedTrade>(trades: T[], query: Pick<ClosedTradeQuery, 'from' | 'to' | 'symbol' | 'side'>): T[] {
+  const from = query.from ? Date.parse(query.from) : null;
+  const to = query.to ? Date.parse(toRangeEnd(query.to)) : null;
+  const symbol = query.symbol?.replace('/', '').toUpperCase();
+
+  return trades.filter(trade => {
+    if (symbol && trade.symbol.toUpperCase() !== symbol) return false;
+    if (query.side && trade.side !== query.side) return false;
+    if (from !== null || to !== null) {
+      const closedAt = trade.closeTime ? Date.parse(trade.closeTime) : null;
+      if (closedAt === null) return false;
+      if (from !== null && closedAt < from) return false;
+      if (to !== null && closedAt > to) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Closed trades for the query's date range with normalized fields,
+ * filtered by symbol/side
+ */
+export async function fetchClosedTrades(
+  client: MetaApiClient,
+  query: Pick<ClosedTradeQuery, 'from' | 'to' | 'symbol' | 'side'>
+) {
+  const trades = await client.getTradeHistory(toBridgeDateRange(query));
+  const rows = await withVolumeLots(trades.filter(isClosedTrade), 'market');
+  return filterClosedTrades(rows.map(row => ({ ...row, ...normalizeClosedTrade(row) })), query);
+}
+
+function sortValue(trade: ClosedTrade, sort: ClosedTradeSort): number | string {
+  switch (sort) {
+    case 'closeTime': return trade.closeTime ? Date.parse(trade.closeTime) : 0;
+    case 'openTime': return trade.openTime ? Date.parse(trade.openTime) : 0;
+    case 'profit': return trade.profit;
+    case 'symbol': return trade.symbol;
+    case 'volume': return trade.volume;
+  }
+}
+
+/**
+ * Compare two trades by the sort key, then by ticket so the order is stable
+ */
+function compareTrades(a: { value: number | string; ticket: number }, b: { value: number | string; ticket: number }): number {
+  if (a.value < b.value) return -1;
+  if (a.value > b.value) return 1;
+  return a.ticket - b.ticket;
+}
+
+interface TradeCursor {
+  value: number | string;
+  ticket: number;
+}
+
+function encodeCursor(cursor: TradeCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): TradeCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if ((typeof parsed?.value === 'number' || typeof parsed?.value === 'string') && typeof parsed?.ticket === 'number') {
+      return parsed;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+function sortKeyed<T extends ClosedTrade>(trades: T[], query: Pick<ClosedTradeQuery, 'sort' | 'order'>) {
+  const direction = query.order === 'asc' ? 1 : -1;
+  return trades
+    .map(trade => ({ trade, key: { value: sortValue(trade, query.sort), ticket: trade.ticket } }))
+    .sort((a, b) => direction * compareTrades(a.key, b.key));
+}
+
+/**
+ * Sort trades by the query's sort field and order
+ */
+export function sortClosedTrades<T extends ClosedTrade>(trades: T[], query: Pick<ClosedTradeQuery, 'sort' | 'order'>): T[] {
+  return sortKeyed(trades, query).map(entry => entry.trade);
+}
+
+/**
+ * Sort trades and return the page after `cursor`. Cursors point at the last
+ * trade of a page, so new trades arriving between requests do not shift pages.
+ * @returns null page when the cursor is not valid
+ */
+export function paginateClosedTrades<T extends ClosedTrade>(
+  trades: T[],
+  query: Pick<ClosedTradeQuery, 'sort' | 'order' | 'limit' | 'cursor'>
+): { items: T[]; nextCursor: string | null } | null {
+  const direction = query.order === 'asc' ? 1 : -1;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const keyed = sortKeyed(trades, query);
+
+  let start = 0;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (!cursor) return null;
+    start = keyed.findIndex(entry => direction * compareTrades(entry.key, cursor) > 0);
+    if (start === -1) start = keyed.length;
+  }
+
+  const page = keyed.slice(start, start + limit);
+  const hasMore = start + limit < keyed.length;
+  return {
+    items: page.map(entry => entry.trade),
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
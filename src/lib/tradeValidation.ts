@@ -0,0 +1,276 @@
+/**
+ * Pre-trade checks against Instrument specs: volume range and step, the
+ * symbol's trade mode, and an estimate of the margin the order needs.
+ * Symbols missing from the instrument table are left to the bridge.
+ */
+
+import type { Instrument, MT5Account } from '@prisma/client';
+import { FieldError } from './validation.js';
+import { MetaApiClient, TradeSide } from './metaapi.js';
+
+// MT5 ENUM_SYMBOL_TRADE_MODE
+export const TRADE_MODE = {
+  DISABLED: 0,
+  LONG_ONLY: 1,
+  SHORT_ONLY: 2,
+  CLOSE_ONLY: 3,
+  FULL: 4,
+} as const;
+
+// MT5 ENUM_SYMBOL_CALC_MODE
+export const CALC_MODE = {
+  FOREX: 0,
+  FUTURES: 1,
+  CFD: 2,
+  CFD_INDEX: 3,
+  CFD_LEVERAGE: 4,
+  FOREX_NO_LEVERAGE: 5,
+  EXCH_STOCKS: 32,
+  EXCH_FUTURES: 33,
+} as const;
+
+const DEFAULT_LEVERAGE = 200;
+
+type InstrumentSpec = Pick<
+  Instrument,
+  'symbol' | 'minVolume' | 'maxVolume' | 'volumeStep' | 'contractSize' | 'marginInitial'
+  | 'tradeMode' | 'calcMode' | 'tickSize' | 'tickValue' | 'currencyMargin' | 'currencyProfit'
+>;
+
+/**
+ * Volume must be within [minVolume, maxVolume] and a multiple of volumeStep
+ */
+export function validateVolume(volume: number, instrument: InstrumentSpec): FieldError | null {
+  if (!Number.isFinite(volume) || volume <= 0) {
+    return { field: 'volume', message: 'Volume must be a positive number' };
+  }
+  if (volume < instrument.minVolume) {
+    return { field: 'volume', message: `Minimum volume for ${instrument.symbol} is ${instrument.minVolume}` };
+  }
+  if (volume > instrument.maxVolume) {
+    return { field: 'volume', message: `Maximum volume for ${instrument.symbol} is ${instrument.maxVolume}` };
+  }
+  if (instrument.volumeStep > 0) {
+    const steps = volume / instrument.volumeStep;
+    if (Math.abs(steps - Math.round(steps)) > 1e-6) {
+      return { field: 'volume', message: `Volume must be a multiple of ${instrument.volumeStep}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether the symbol's trade mode allows opening on this side
+ */
+export function validateTradeMode(side: TradeSide, instrument: InstrumentSpec): FieldError | null {
+  switch (instrument.tradeMode) {
+    case TRADE_MODE.DISABLED:
+      return { field: 'symbol', message: `Trading is disabled for ${instrument.symbol}` };
+    case TRADE_MODE.CLOSE_ONLY:
+      return { field: 'symbol', message: `${instrument.symbol} is close-only` };
+    case TRADE_MODE.LONG_ONLY:
+      return side === 'sell' ? { field: 'side', message: `Only buy orders are allowed for ${instrument.symbol}` } : null;
+    case TRADE_MODE.SHORT_ONLY:
+      return side === 'buy' ? { field: 'side', message: `Only sell orders are allowed for ${instrument.symbol}` } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Estimate the margin for an order in the account currency, following the
+ * MT5 formula for the symbol's calc mode. Conversion between margin and
+ * account currency is only done for pairs quoted in the account currency,
+ * so this is an estimate, not the server's exact figure.
+ */
+export function estimateMargin(params: {
+  instrument: InstrumentSpec;
+  volume: number;
+  price: number;
+  leverage: number;
+  accountCurrency?: string | null;
+}): number {
+  const { instrument, volume, price, leverage } = params;
+  const contract = instrument.contractSize;
+  const initial = instrument.marginInitial && instrument.marginInitial > 0 ? instrument.marginInitial : null;
+
+  let margin: number;
+  let inBaseCurrency = false;
+  switch (instrument.calcMode) {
+    case CALC_MODE.FUTURES:
+    case CALC_MODE.EXCH_FUTURES:
+      margin = volume * (initial ?? contract * price);
+      break;
+    case CALC_MODE.CFD:
+    case CALC_MODE.EXCH_STOCKS:
+      margin = volume * contract * price;
+      break;
+    case CALC_MODE.CFD_INDEX:
+      margin = instrument.tickSize && instrument.tickValue
+        ? volume * contract * price * instrument.tickValue / instrument.tickSize
+        : volume * contract * price;
+      break;
+    case CALC_MODE.CFD_LEVERAGE:
+      margin = volume * contract * price / leverage;
+      break;
+    case CALC_MODE.FOREX_NO_LEVERAGE:
+      margin = volume * (initial ?? contract);
+      inBaseCurrency = true;
+      break;
+    case CALC_MODE.FOREX:
+    default:
+      margin = volume * (initial ?? contract) / leverage;
+      inBaseCurrency = true;
+      break;
+  }
+
+  // e.g. EURUSD on a USD account: margin is in EUR, convert at the price
+  const account = params.accountCurrency?.toUpperCase();
+  if (
+    inBaseCurrency
+    && account
+    && instrument.currencyMargin?.toUpperCase() !== account
+    && instrument.currencyProfit?.toUpperCase() === account
+  ) {
+    margin *= price;
+  }
+
+  return margin;
+}
+
+/**
+ * Parse the account leverage from the bridge ("1:200" or 200) or the DB
+ */
+export function parseLeverage(value: unknown, fallback: number | null): number {
+  const parsed = typeof value === 'string' ? Number(value.split(':').pop()) : Number(value);
+  if (Number.isFinite(parsed) && parsed > 0) return parsed;
+  return fallback && fallback > 0 ? fallback : DEFAULT_LEVERAGE;
+}
+
+export interface MarginCheck {
+  required: number;
+  free: number;
+  /** Set when the free margin does not cover the estimate */
+  error: FieldError | null;
+}
+
+/**
+ * Compare the estimated margin with the account's live free margin.
+ * @returns null when the balance cannot be fetched; the bridge has the final say
+ */
+export async function checkMargin(params: {
+  client: MetaApiClient;
+  account: Pick<MT5Account, 'leverage' | 'currency'>;
+  instrument: InstrumentSpec;
+  volume: number;
+  price: number;
+}): Promise<MarginCheck | null> {
+  let balance: any;
+  try {
+    balance = await params.client.getBalance();
+  } catch (error) {
+    console.warn('[TradeValidation] Balance unavailable, skipping margin check:', error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  const rawFree = balance?.FreeMargin ?? balance?.freeMargin ?? balance?.MarginFree ?? balance?.marginFree;
+  const free = Number(rawFree);
+  if (rawFree == null || !Number.isFinite(free)) return null;
+
+  const required = estimateMargin({
+    instrument: params.instrument,
+    volume: params.volume,
+    price: params.price,
+    leverage: parseLeverage(balance?.Leverage ?? balance?.leverage, params.account.leverage),
+    accountCurrency: balance?.Currency ?? balance?.currency ?? params.account.currency,
+  });
+
+  return {
+    required,
+    free,
+    error: required > free
+      ? { field: 'volume', message: `Not enough free margin: requires about ${required.toFixed(2)}, available ${free.toFixed(2)}` }
+      : null,
+  };
+}
+
+/**
+ * Spec checks that need no account data (volume and trade mode)
+ */
+export function validateOrderSpec(side: TradeSide, volume: number, instrument: InstrumentSpec): FieldError[] {
+  return [validateVolume(volume, instrument), validateTradeMode(side, instrument)]
+    .filter((error): error is FieldError => error !== null);
+}
+
+/**
+ * Price rules for stop-limit orders. A buy stop-limit triggers above the ask
+ * and then rests as a buy limit at or below the trigger; a sell stop-limit
+ * mirrors that below the bid. The quote check is skipped without a quote.
+ */
+export function validateStopLimitPrices(
+  side: TradeSide,
+  triggerPrice: number,
+  limitPrice: number,
+  quote: { bid: number; ask: number } | null
+): FieldError[] {
+  const errors: FieldError[] = [];
+  if (!Number.isFinite(triggerPrice) || triggerPrice <= 0) {
+    errors.push({ field: 'price', message: 'Trigger price must be a positive number' });
+  }
+  if (!Number.isFinite(limitPrice) || limitPrice <= 0) {
+    errors.push({ field: 'limitPrice', message: 'Limit price must be a positive number' });
+  }
+  if (errors.length > 0) return errors;
+
+  if (side === 'buy') {
+    if (quote && triggerPrice <= quote.ask) {
+      errors.push({ field: 'price', message: `Trigger price must be above the current ask (${quote.ask})` });
+    }
+    if (limitPrice > triggerPrice) {
+      errors.push({ field: 'limitPrice', message: 'Limit price must be at or below the trigger price for a buy stop-limit' });
+    }
+  } else {
+    if (quote && triggerPrice >= quote.bid) {
+      errors.push({ field: 'price', message: `Trigger price must be below the current bid (${quote.bid})` });
+    }
+    if (limitPrice < triggerPrice) {
+      errors.push({ field: 'limitPrice', message: 'Limit price must be at or above the trigger price for a sell stop-limit' });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Volume for a partial close: within the open volume, on the volume step,
+ * and not leaving a remainder below the minimum volume.
+ * @param positionVolume Open volume of the position in lots
+ */
+export function validateCloseVolume(
+  volume: number,
+  positionVolume: number,
+  instrument: Pick<InstrumentSpec, 'minVolume' | 'volumeStep'> | null
+): FieldError | null {
+  if (!Number.isFinite(volume) || volume <= 0) {
+    return { field: 'volume', message: 'Volume must be a positive number' };
+  }
+  if (volume > positionVolume + 1e-9) {
+    return { field: 'volume', message: `Volume exceeds the open position (${positionVolume} lots)` };
+  }
+  if (!instrument) return null;
+
+  if (instrument.volumeStep > 0) {
+    const steps = volume / instrument.volumeStep;
+    if (Math.abs(steps - Math.round(steps)) > 1e-6) {
+      return { field: 'volume', message: `Volume must be a multiple of ${instrument.volumeStep}` };
+    }
+  }
+
+  const remaining = Number((positionVolume - volume).toFixed(4));
+  if (remaining > 0 && volume < instrument.minVolume) {
+    return { field: 'volume', message: `Minimum volume is ${instrument.minVolume}` };
+  }
+  if (remaining > 0 && remaining < instrument.minVolume) {
+    return { field: 'volume', message: `Remaining volume ${remaining} would be below the minimum of ${instrument.minVolume}; close the full position instead` };
+  }
+  return null;
+}
@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { z } from 'zod';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Flatten zod issues into `{ field, message }` pairs the UI can map to inputs
+ */
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map(issue => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Send a 400 with field errors
+ */
+export function sendFieldErrors(
+  res: Response,
+  errors: FieldError[],
+  message: string = 'Invalid request',
+  code: string = 'VALIDATION_ERROR'
+) {
+  return res.status(400).json({
+    success: false,
+    message,
+    error: code,
+    errors,
+  });
+}
+
+/**
+ * Parse a request payload, or send a 400 with field errors and return null
+ */
+export function parseBody<T extends z.ZodType>(
+  schema: T,
+  body: unknown,
+  res: Response
+): z.infer<T> | null {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    sendFieldErrors(res, toFieldErrors(parsed.error));
+    return null;
+  }
+  return parsed.data;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * ISO date or date-time query parameter
+ */
+export const dateParam = z.string().trim().refine(value => !Number.isNaN(Date.parse(value)), 'Must be an ISO date or date-time');
+
+/**
+ * End of a date range: a date without a time covers that whole day (UTC),
+ * so it becomes the day's last millisecond
+ */
+export function toRangeEnd(value: string): string {
+  return DATE_ONLY.test(value) ? `${value}T23:59:59.999Z` : value;
+}
+
+/**
+ * Date parameter that ends a range (see toRangeEnd)
+ */
+export const rangeEndDateParam = dateParam.transform(toRangeEnd);
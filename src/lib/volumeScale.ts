@@ -0,0 +1,166 @@
+/**
+ * Lot <-> bridge volume conversion.
+ *
+ * The MetaAPI bridge does not take lots uniformly: market orders want
+ * lots * 100, pending orders want lots / 10 for most symbols but lots * 100
+ * for BTC/ETH, and so on. The factors live in the VolumeScale table so new
+ * symbols can be fixed without a deploy. DEFAULT_VOLUME_SCALES mirrors the
+ * original hardcoded behaviour; a table row replaces only the default rule
+ * with the same operation and scope, the other defaults stay in effect.
+ */
+
+import { prisma } from './db.js';
+
+export const VOLUME_OPERATIONS = ['market', 'pending', 'modify', 'close'] as const;
+export type VolumeOperation = typeof VOLUME_OPERATIONS[number];
+
+export const VOLUME_SCOPES = ['symbol', 'contains', 'category', 'default'] as const;
+export type VolumeScope = typeof VOLUME_SCOPES[number];
+
+export interface VolumeScaleRule {
+  operation: VolumeOperation;
+  scopeType: VolumeScope;
+  scopeValue: string;
+  multiplier: number;
+  /** Decimal places of the bridge value; null = no rounding */
+  decimals: number | null;
+}
+
+export const DEFAULT_VOLUME_SCALES: VolumeScaleRule[] = [
+  { operation: 'market', scopeType: 'default', scopeValue: '', multiplier: 100, decimals: 0 },
+  { operation: 'pending', scopeType: 'contains', scopeValue: 'BTC', multiplier: 100, decimals: 0 },
+  { operation: 'pending', scopeType: 'contains', scopeValue: 'ETH', multiplier: 100, decimals: 0 },
+  // The bridge applies its own 10x to these, so 0.01 lots is sent as 0.001
+  { operation: 'pending', scopeType: 'default', scopeValue: '', multiplier: 0.1, decimals: 4 },
+  { operation: 'modify', scopeType: 'default', scopeValue: '', multiplier: 1, decimals: null },
+  { operation: 'close', scopeType: 'default', scopeValue: '', multiplier: 1, decimals: null },
+];
+
+const CACHE_TTL_MS = 60 * 1000;
+
+let cached: { rules: VolumeScaleRule[]; loadedAt: number } | null = null;
+
+const ruleKey = (rule: VolumeScaleRule) =>
+  `${rule.operation}|${rule.scopeType}|${rule.scopeValue.toUpperCase()}`;
+
+/**
+ * Table rows plus the default rules no row overrides
+ */
+export function mergeVolumeScales(rows: VolumeScaleRule[]): VolumeScaleRule[] {
+  const configured = new Set(rows.map(ruleKey));
+  return [...rows, ...DEFAULT_VOLUME_SCALES.filter(rule => !configured.has(ruleKey(rule)))];
+}
+
+/**
+ * Current rules (cached for a minute)
+ */
+export async function getVolumeScales(): Promise<VolumeScaleRule[]> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.rules;
+  }
+
+  try {
+    const rows = await prisma.volumeScale.findMany() as VolumeScaleRule[];
+    const rules = mergeVolumeScales(rows);
+    cached = { rules, loadedAt: Date.now() };
+    return rules;
+  } catch (error) {
+    console.error('[VolumeScale] Failed to load scales, using defaults:', error);
+    return cached?.rules ?? DEFAULT_VOLUME_SCALES;
+  }
+}
+
+/**
+ * Drop the cached rules after the table changes
+ */
+export function invalidateVolumeScales(): void {
+  cached = null;
+}
+
+/**
+ * Pick the rule for a symbol: symbol, then contains, then category, then default
+ */
+export function findVolumeScale(
+  rules: VolumeScaleRule[],
+  operation: VolumeOperation,
+  symbol: string,
+  category?: string | null
+): VolumeScaleRule | null {
+  const sym = symbol.replace('/', '').toUpperCase();
+  const cat = category?.toUpperCase();
+  const candidates = rules.filter(rule => rule.operation === operation);
+
+  return candidates.find(rule => rule.scopeType === 'symbol' && rule.scopeValue.toUpperCase() === sym)
+    ?? candidates.find(rule => rule.scopeType === 'contains' && rule.scopeValue && sym.includes(rule.scopeValue.toUpperCase()))
+    ?? candidates.find(rule => rule.scopeType === 'category' && cat !== undefined && rule.scopeValue.toUpperCase() === cat)
+    ?? candidates.find(rule => rule.scopeType === 'default')
+    ?? null;
+}
+
+function round(value: number, decimals: number | null): number {
+  return decimals === null ? value : Number(value.toFixed(decimals));
+}
+
+function toLots(volume: number, rule: VolumeScaleRule | null): number {
+  if (!rule || !rule.multiplier) return volume;
+  // Lots never carry more precision than 0.0001 here
+  return Number((volume / rule.multiplier).toFixed(4));
+}
+
+/**
+ * Convert lots to the volume the bridge expects for an operation
+ */
+export async function toBridgeVolume(
+  lots: number,
+  operation: VolumeOperation,
+  symbol: string,
+  category?: string | null
+): Promise<number> {
+  const rule = findVolumeScale(await getVolumeScales(), operation, symbol, category);
+  if (!rule) return lots;
+  return round(lots * rule.multiplier, rule.decimals);
+}
+
+/**
+ * Convert a volume reported by the bridge back to lots
+ */
+export async function fromBridgeVolume(
+  volume: number,
+  operation: VolumeOperation,
+  symbol: string,
+  category?: string | null
+): Promise<number> {
+  return toLots(volume, findVolumeScale(await getVolumeScales(), operation, symbol, category));
+}
+
+/**
+ * Add `volumeLots` to position/order rows from the bridge that only carry
+ * raw Volume. Rows that already report lots are left as they are.
+ */
+export async function withVolumeLots<T extends Record<string, any>>(
+  rows: T[],
+  operation: VolumeOperation
+): Promise<(T & { volumeLots?: number })[]> {
+  const rules = await getVolumeScales();
+  const symbolOf = (row: T) => String(row.Symbol ?? row.symbol ?? '');
+
+  // Only look up categories when a category rule could apply
+  const categories = new Map<string, string>();
+  if (rules.some(rule => rule.operation === operation && rule.scopeType === 'category')) {
+    const symbols = [...new Set(rows.map(symbolOf).filter(Boolean))];
+    const instruments = await prisma.instrument.findMany({
+      where: { symbol: { in: symbols } },
+      select: { symbol: true, category: true },
+    });
+    instruments.forEach(inst => categories.set(inst.symbol, inst.category));
+  }
+
+  return rows.map(row => {
+    if (row.VolumeLots !== undefined || row.volumeLots !== undefined) return row;
+    const volume = Number(row.Volume ?? row.volume);
+    if (!Number.isFinite(volume)) return row;
+
+    const symbol = symbolOf(row);
+    return { ...row, volumeLots: toLots(volume, findVolumeScale(rules, operation, symbol, categories.get(symbol))) };
+  });
+}
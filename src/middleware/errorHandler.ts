@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 export interface ApiError extends Error {
   statusCode?: number;
   status?: number;
+  data?: any;
 }
 
 /**
@@ -44,3 +45,31 @@ export function notFoundHandler(
     message: `Route ${req.method} ${req.path} not found`,
   });
 }
+
+/**
+ * Send the JSON error response for an error caught inside a route handler.
+ * Errors that carry a status code (e.g. MetaApiError) keep their status and
+ * message; anything else becomes a 500 with the fallback message.
+ */
+export function sendRouteError(
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): Response {
+  const err = error as ApiError;
+  const statusCode = err?.statusCode || err?.status;
+
+  if (statusCode) {
+    return res.status(statusCode).json({
+      success: false,
+      message: err.message || fallbackMessage,
+      error: err.data,
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
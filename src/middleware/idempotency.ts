@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { holdClaim, idempotencyStore, IdempotencyState, StoredResponse } from '../lib/idempotency.js';
+
+const IN_FLIGHT_WAIT_MS = 10000;
+const IN_FLIGHT_POLL_MS = 250;
+/** Answers that say nothing was sent, so a retry with the same key may run */
+const TRANSIENT_STATUSES = new Set([429, 503]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function replay(res: Response, response: StoredResponse): void {
+  res.setHeader('Idempotent-Replayed', 'true');
+  res.status(response.status).json(response.body);
+}
+
+/**
+ * Idempotency-Key Middleware
+ * Optional header on trade requests. The first request with a key runs and
+ * its response is stored; replays with the same key and body get the stored
+ * response without a second call to the bridge. A replay that arrives while
+ * the first request is still running waits for it, then gets a 409 if it is
+ * still not done. The claim is refreshed while the route runs, so a slow
+ * bridge cannot let a retry take the key over and trade twice.
+ * Errors are stored too: after a bridge error or timeout the trade may
+ * still have executed, so a retry must not send it again; the client checks
+ * its positions and retries with a new key. Only 429 and 503, which mean
+ * the request was turned away, release the key for a retry.
+ * Must run after authenticateToken (keys are scoped per user and route) and
+ * after checks such as blockWhenKillSwitchActive that answer without
+ * trading, so their responses are not replayed.
+ */
+export async function idempotency(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const header = req.get('Idempotency-Key');
+  const userId = req.user?.userId;
+  if (!header || !userId) {
+    next();
+    return;
+  }
+
+  if (header.length > 255) {
+    res.status(400).json({
+      success: false,
+      message: 'Idempotency-Key must be at most 255 characters',
+      error: 'INVALID_IDEMPOTENCY_KEY',
+    });
+    return;
+  }
+
+  const key = `${userId}:${req.method}:${req.baseUrl}${req.path}:${header}`;
+  const fingerprint = createHash('sha256').update(JSON.stringify(req.body ?? {})).digest('hex');
+
+  try {
+    const deadline = Date.now() + IN_FLIGHT_WAIT_MS;
+    let existing: IdempotencyState = await idempotencyStore.begin(key, fingerprint);
+
+    while (existing.state === 'in_flight' && Date.now() < deadline) {
+      await sleep(IN_FLIGHT_POLL_MS);
+      existing = await idempotencyStore.peek(key);
+      // The first request's claim expired without a response: take it over
+      if (existing.state === 'new') {
+        existing = await idempotencyStore.begin(key, fingerprint);
+      }
+    }
+
+    if (existing.state !== 'new' && existing.fingerprint !== fingerprint) {
+      res.status(422).json({
+        success: false,
+        message: 'Idempotency-Key was already used with a different request',
+        error: 'IDEMPOTENCY_KEY_REUSED',
+      });
+      return;
+    }
+
+    if (existing.state === 'completed') {
+      replay(res, existing.response);
+      return;
+    }
+
+    if (existing.state === 'in_flight') {
+      res.setHeader('Retry-After', '1');
+      res.status(409).json({
+        success: false,
+        message: 'A request with this Idempotency-Key is still being processed',
+        error: 'IDEMPOTENCY_IN_PROGRESS',
+      });
+      return;
+    }
+  } catch (error) {
+    console.error('[Idempotency] Key check failed:', error);
+    next();
+    return;
+  }
+
+  const stopRefreshing = holdClaim(idempotencyStore, key, fingerprint);
+  res.once('close', stopRefreshing);
+
+  // Store whatever the route answers with
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    stopRefreshing();
+    const stored = TRANSIENT_STATUSES.has(res.statusCode)
+      ? idempotencyStore.release(key, fingerprint)
+      : idempotencyStore.complete(key, fingerprint, { status: res.statusCode, body });
+    stored.catch((error) => {
+      console.error('[Idempotency] Failed to store response:', error);
+    });
+    return json(body);
+  };
+
+  next();
+}
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { ActiveKillSwitch, getActiveKillSwitch } from '../lib/killSwitch.js';
+
+/**
+ * 403 for a request refused by an active kill switch
+ */
+export function sendKillSwitchActive(
+  res: Response,
+  killSwitch: ActiveKillSwitch,
+  reason: string = 'You can still close positions.'
+): void {
+  res.status(403).json({
+    success: false,
+    message: killSwitch.until
+      ? `Trading is paused by your kill switch until ${killSwitch.until.toISOString()}. ${reason}`
+      : `Trading is paused by your kill switch. ${reason}`,
+    error: 'KILL_SWITCH_ACTIVE',
+    data: {
+      scope: killSwitch.scope,
+      killSwitchUntil: killSwitch.until,
+    },
+  });
+}
+
+/**
+ * Kill Switch Middleware
+ * Refuses risk-increasing trades while the user's or the account's kill
+ * switch is active. Must run after authenticateToken; the account is read
+ * from the body (or query) accountId. Close routes do not use it, and the
+ * position modify route checks it itself so protection can still be tightened.
+ */
+export async function blockWhenKillSwitchActive(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const userId = req.user?.userId;
+  if (!userId) {
+    next();
+    return;
+  }
+
+  try {
+    const accountId = req.body?.accountId ?? req.query.accountId;
+    const killSwitch = await getActiveKillSwitch(userId, accountId ? String(accountId) : undefined);
+
+    if (killSwitch) {
+      sendKillSwitchActive(res, killSwitch);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('[KillSwitch] Check failed:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify trading status',
+    });
+  }
+}
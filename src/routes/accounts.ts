@@ -1,7 +1,22 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/db.js';
 import { authenticateToken } from '../middleware/auth.js';
-import { tokenCache } from '../lib/tokenCache.js';
+import { sendRouteError } from '../middleware/errorHandler.js';
+import { isBridgeUnavailable, MetaApiClient } from '../lib/metaapi.js';
+import { parseBody } from '../lib/validation.js';
+import { getKillSwitchUntil, isKillSwitchActive, killSwitchActivationSchema } from '../lib/killSwitch.js';
+import { analyticsQuerySchema, computeAnalytics } from '../lib/analytics.js';
+import { analyticsCache, getLatestTrade, hasNewerTrade } from '../lib/analyticsCache.js';
+import { fetchClosedTrades } from '../lib/tradeHistory.js';
+import { getTerminalSettings } from '../lib/terminalSettings.js';
+import {
+  equityHistoryQuerySchema,
+  extractAccountFigures,
+  getEquityHistory,
+  saveAccountFigures,
+  storedBalanceData,
+} from '../lib/accountSnapshots.js';
+import { checkMarginLevel } from '../lib/marginWarnings.js';
 
 const router = Router();
 
@@ -59,7 +74,7 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
       accountType: account.accountType || 'Live',
       group: account.group || '',
       linkedAt: account.createdAt.toISOString(),
-      killSwitchActive: account.killSwitchActive,
+      killSwitchActive: isKillSwitchActive(account),
       killSwitchUntil: account.killSwitchUntil,
     }));
 
@@ -116,107 +131,86 @@ router.get('/:accountId/balance', authenticateToken, async (req: Request, res: R
       });
     }
 
-    // Authenticate with MetaAPI to get access token
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
+    const client = new MetaApiClient(mt5Account, `balance_${userId}`);
+    let balance: any;
+    try {
+      balance = await client.getBalance();
+    } catch (error) {
+      // Bridge down: serve the figures from the last sync, marked stale.
+      // Rejections (bad credentials, unknown account) are passed on as before.
+      if (!isBridgeUnavailable(error) || !mt5Account.lastSyncedAt) throw error;
+      console.error('[Balance] Live balance failed, using last snapshot:', error instanceof Error ? error.message : error);
+      return res.json({
+        success: true,
+        data: storedBalanceData(mt5Account),
+        stale: true,
+        lastSyncedAt: mt5Account.lastSyncedAt,
+      });
     }
 
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
-
-    if (!mt5Account.password) {
-      return res.status(400).json({
-        success: false,
-        message: 'MT5 account password not found',
-      });
+    const figures = extractAccountFigures(balance);
+    if (figures) {
+      saveAccountFigures(mt5Account.id, figures)
+        .then(() => checkMarginLevel(mt5Account, figures))
+        .catch((error) => {
+          console.error('[Balance] Failed to store balance figures:', error);
+        });
     }
 
-    let accessToken: string | null = null;
-    try {
-      const loginPayload = {
-        AccountId: parseInt(String(accountId), 10),
-        Password: mt5Account.password.trim(),
-        DeviceId: `web_balance_${userId}_${Date.now()}`,
-        DeviceType: 'web',
-      };
-
-      const loginResponse = await fetch(loginUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(loginPayload),
-      });
+    return res.json({
+      success: true,
+      data: balance,
+      stale: false,
+      lastSyncedAt: figures ? new Date() : mt5Account.lastSyncedAt,
+    });
+  } catch (error) {
+    return sendRouteError(res, error, 'Failed to fetch account balance');
+  }
+});
 
-      if (loginResponse.ok) {
-        const loginData = await loginResponse.json() as any;
-        accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-      }
-    } catch (err) {
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
-    }
+/**
+ * GET /api/accounts/:accountId/equity-history
+ * Balance/equity snapshots recorded by the account sync (optional from/to)
+ */
+router.get('/:accountId/equity-history', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { accountId } = req.params;
 
-    if (!accessToken) {
+    if (!userId) {
       return res.status(401).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        message: 'Unauthorized',
       });
     }
 
-    // Fetch balance from MetaAPI with authentication
-    const API_BASE = LIVE_API_URL.endsWith('/api') ? LIVE_API_URL : `${LIVE_API_URL.replace(/\/$/, '')}/api`;
-    const balanceUrl = `${API_BASE}/Users/${String(accountId)}/GetClientBalance`;
+    const query = parseBody(equityHistoryQuerySchema, req.query, res);
+    if (!query) return;
 
-    try {
-      const response = await fetch(balanceUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'AccountId': String(accountId),
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        return res.status(response.status).json({
-          success: false,
-          message: `Failed to fetch balance: ${response.statusText}`,
-        });
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        OR: [
+          { id: accountId as string },
+          { accountId: accountId as string }
+        ],
+        userId: userId,
+        archived: false,
       }
+    });
 
-      const result = await response.json() as any;
-
-      if (result.Success && result.Data) {
-        return res.json({
-          success: true,
-          data: result.Data
-        });
-      } else {
-        return res.status(400).json({
-          success: false,
-          message: result.Message || 'Failed to fetch balance from MetaAPI'
-        });
-      }
-    } catch (err) {
-      return res.status(500).json({
+    if (!mt5Account) {
+      return res.status(404).json({
         success: false,
-        message: 'Internal server error while fetching balance',
-        error: err instanceof Error ? err.message : 'Unknown error',
+        message: 'Account not found',
       });
     }
-  } catch (error) {
-    return res.status(500).json({
-      success: false,
-      message: 'Failed to fetch account balance',
+
+    return res.json({
+      success: true,
+      data: await getEquityHistory(mt5Account.id, query),
     });
+  } catch (error) {
+    return sendRouteError(res, error, 'Failed to fetch equity history');
   }
 });
 
@@ -231,19 +225,6 @@ router.post('/:accountId/metaapi-login', authenticateToken, async (req: Request,
     const userId = req.user?.userId;
     const accountId = String(req.params.accountId);
 
-    // Check cache first
-    const cachedToken = tokenCache.get(accountId);
-    if (cachedToken) {
-      // console.log(`[AccountLogin] Using cached token for accountId: ${accountId}`);
-      return res.json({
-        success: true,
-        data: {
-          accessToken: cachedToken,
-          accountId: accountId,
-        },
-      });
-    }
-
     // Get MT5 account with password
     const mt5Account = await prisma.mT5Account.findFirst({
       where: {
@@ -270,90 +251,19 @@ router.post('/:accountId/metaapi-login', authenticateToken, async (req: Request,
       });
     }
 
-    // Trim password to remove any whitespace
-    const cleanedPassword = mt5Account.password.trim();
-
-    // Authenticate with MetaAPI
-    // LIVE_API_URL should already include /api (e.g., https://metaapi.zuperior.com/api)
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    // CLIENT_LOGIN_PATH should be /client/ClientAuth/login (without /api prefix)
-    // If env has /api/client/ClientAuth/login, we'll strip the /api part
-    let CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-    // Remove /api prefix if present (since LIVE_API_URL already has it)
-    if (CLIENT_LOGIN_PATH.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH = CLIENT_LOGIN_PATH.replace(/^\/api/, '');
-    }
-    const loginUrl = CLIENT_LOGIN_PATH.startsWith('http')
-      ? CLIENT_LOGIN_PATH
-      : CLIENT_LOGIN_PATH.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH}`;
-
-    // Parse accountId as integer - use the actual MT5 account number from DB
-    const actualMt5AccountId = mt5Account.accountId;
-    const accountIdInt = parseInt(actualMt5AccountId, 10);
-    if (isNaN(accountIdInt)) {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid account ID format in database',
-      });
-    }
-
-    // Use device ID format matching curl example
-    const deviceId = `web_device_${Date.now()}`;
-    const deviceType = 'web';
-
-    try {
-      const requestBody = {
-        AccountId: accountIdInt,
-        Password: cleanedPassword,
-        DeviceId: deviceId,
-        DeviceType: deviceType,
-      };
-
-      const loginResponse = await fetch(loginUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (loginResponse.ok) {
-        const loginData = await loginResponse.json() as any;
-        // console.log(`[AccountLogin] MetaAPI login successful for accountId: ${accountId}`);
+    // Uses the cached token when available, otherwise logs in
+    const client = new MetaApiClient(mt5Account, 'device');
+    const accessToken = await client.getAccessToken();
 
-        // Check for Token (capital T) first, as that's what the API returns
-        const accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.data?.accessToken || loginData?.token;
-
-        if (accessToken) {
-          // Store in cache (1 hour TTL)
-          tokenCache.set(accountId, accessToken, 3600);
-
-          return res.json({
-            success: true,
-            data: {
-              accessToken,
-              accountId: accountId,
-            },
-          });
-        }
-      }
-
-      // console.log(`[AccountLogin] MetaAPI login failed for accountId: ${accountId}, status: ${loginResponse.status}`);
-      return res.status(401).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
-    } catch (err) {
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
-    }
-  } catch (error) {
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
+    return res.json({
+      success: true,
+      data: {
+        accessToken,
+        accountId: accountId,
+      },
     });
+  } catch (error) {
+    return sendRouteError(res, error, 'Internal server error');
   }
 });
 
@@ -448,111 +358,50 @@ router.get('/:accountId/profile', authenticateToken, async (req: Request, res: R
       });
     }
 
-    // Get client access token from MetaAPI
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-
-    // Remove /api prefix if present (since LIVE_API_URL already has it)
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
-
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
-
-    let accessToken: string | null = null;
-    const actualMt5AccountId = mt5Account.accountId;
+    // Try to fetch live figures from MetaAPI
     try {
-      const loginPayload = {
-        AccountId: parseInt(actualMt5AccountId, 10),
-        Password: mt5Account.password.trim(),
-        DeviceId: `web_device_${Date.now()}`,
-        DeviceType: 'web',
-      };
-
-      const loginResponse = await fetch(loginUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(loginPayload),
-      });
-
-      if (loginResponse.ok) {
-        const loginData = await loginResponse.json() as any;
-        // Check for Token (capital T) first, as that's what the API returns
-        accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-      }
-    } catch (err) {
-      // Silent fail - will use database data
-    }
-
-    // Try to fetch from MetaAPI if we have a token
-    if (accessToken) {
-      const profileUrl = `https://metaapi.zuperior.com/api/Users/${accountId}/GetClientBalance`;
-
-      try {
-        const response = await fetch(profileUrl, {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            'AccountId': accountId,
-            'Content-Type': 'application/json',
-          },
-        });
+      const client = new MetaApiClient(mt5Account, 'device');
+      const balanceData = await client.getBalance();
 
-        if (response.ok) {
-          const result = await response.json() as any;
-
-          // Handle different response formats
-          let balanceData = result?.data || result?.Data || result;
-          if (balanceData && typeof balanceData === 'object' && !balanceData.Balance && !balanceData.balance) {
-            balanceData = balanceData.result || balanceData.response || balanceData;
-          }
-
-          if (balanceData && (balanceData.Balance !== undefined || balanceData.balance !== undefined)) {
-            // Merge with database metadata
-            const accountType = (mt5Account.group || '').toLowerCase().includes('demo') ? 'Demo' : 'Live';
-            return res.json({
-              success: true,
-              data: {
-                Balance: balanceData.Balance ?? balanceData.balance ?? mt5Account.balance ?? 0,
-                balance: balanceData.Balance ?? balanceData.balance ?? mt5Account.balance ?? 0,
-                Equity: balanceData.Equity ?? balanceData.equity ?? mt5Account.equity ?? 0,
-                equity: balanceData.Equity ?? balanceData.equity ?? mt5Account.equity ?? 0,
-                Margin: balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
-                margin: balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
-                MarginUsed: balanceData.MarginUsed ?? balanceData.marginUsed ?? balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
-                marginUsed: balanceData.MarginUsed ?? balanceData.marginUsed ?? balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
-                FreeMargin: balanceData.FreeMargin ?? balanceData.freeMargin ?? mt5Account.marginFree ?? 0,
-                freeMargin: balanceData.FreeMargin ?? balanceData.freeMargin ?? mt5Account.marginFree ?? 0,
-                MarginLevel: balanceData.MarginLevel ?? balanceData.marginLevel ?? mt5Account.marginLevel ?? 0,
-                marginLevel: balanceData.MarginLevel ?? balanceData.marginLevel ?? mt5Account.marginLevel ?? 0,
-                Profit: balanceData.Profit ?? balanceData.profit ?? mt5Account.profit ?? 0,
-                profit: balanceData.Profit ?? balanceData.profit ?? mt5Account.profit ?? 0,
-                Credit: balanceData.Credit ?? balanceData.credit ?? mt5Account.credit ?? 0,
-                credit: balanceData.Credit ?? balanceData.credit ?? mt5Account.credit ?? 0,
-                Leverage: balanceData.Leverage ?? balanceData.leverage ?? (mt5Account.leverage ? `1:${mt5Account.leverage}` : '1:200'),
-                leverage: balanceData.Leverage ?? balanceData.leverage ?? (mt5Account.leverage ? `1:${mt5Account.leverage}` : '1:200'),
-                Name: (balanceData.Name ?? balanceData.name ?? mt5Account.nameOnAccount) || 'Account',
-                name: (balanceData.Name ?? balanceData.name ?? mt5Account.nameOnAccount) || 'Account',
-                Group: mt5Account.group || '',
-                group: mt5Account.group || '',
-                AccountType: accountType,
-                accountType: accountType,
-                Currency: (balanceData.Currency ?? balanceData.currency ?? mt5Account.currency) || 'USD',
-                currency: (balanceData.Currency ?? balanceData.currency ?? mt5Account.currency) || 'USD',
-                killSwitchActive: mt5Account.killSwitchActive,
-                killSwitchUntil: mt5Account.killSwitchUntil,
-              }
-            });
+      if (balanceData && (balanceData.Balance !== undefined || balanceData.balance !== undefined)) {
+        // Merge with database metadata
+        const accountType = (mt5Account.group || '').toLowerCase().includes('demo') ? 'Demo' : 'Live';
+        return res.json({
+          success: true,
+          data: {
+            Balance: balanceData.Balance ?? balanceData.balance ?? mt5Account.balance ?? 0,
+            balance: balanceData.Balance ?? balanceData.balance ?? mt5Account.balance ?? 0,
+            Equity: balanceData.Equity ?? balanceData.equity ?? mt5Account.equity ?? 0,
+            equity: balanceData.Equity ?? balanceData.equity ?? mt5Account.equity ?? 0,
+            Margin: balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
+            margin: balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
+            MarginUsed: balanceData.MarginUsed ?? balanceData.marginUsed ?? balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
+            marginUsed: balanceData.MarginUsed ?? balanceData.marginUsed ?? balanceData.Margin ?? balanceData.margin ?? mt5Account.margin ?? 0,
+            FreeMargin: balanceData.FreeMargin ?? balanceData.freeMargin ?? mt5Account.marginFree ?? 0,
+            freeMargin: balanceData.FreeMargin ?? balanceData.freeMargin ?? mt5Account.marginFree ?? 0,
+            MarginLevel: balanceData.MarginLevel ?? balanceData.marginLevel ?? mt5Account.marginLevel ?? 0,
+            marginLevel: balanceData.MarginLevel ?? balanceData.marginLevel ?? mt5Account.marginLevel ?? 0,
+            Profit: balanceData.Profit ?? balanceData.profit ?? mt5Account.profit ?? 0,
+            profit: balanceData.Profit ?? balanceData.profit ?? mt5Account.profit ?? 0,
+            Credit: balanceData.Credit ?? balanceData.credit ?? mt5Account.credit ?? 0,
+            credit: balanceData.Credit ?? balanceData.credit ?? mt5Account.credit ?? 0,
+            Leverage: balanceData.Leverage ?? balanceData.leverage ?? (mt5Account.leverage ? `1:${mt5Account.leverage}` : '1:200'),
+            leverage: balanceData.Leverage ?? balanceData.leverage ?? (mt5Account.leverage ? `1:${mt5Account.leverage}` : '1:200'),
+            Name: (balanceData.Name ?? balanceData.name ?? mt5Account.nameOnAccount) || 'Account',
+            name: (balanceData.Name ?? balanceData.name ?? mt5Account.nameOnAccount) || 'Account',
+            Group: mt5Account.group || '',
+            group: mt5Account.group || '',
+            AccountType: accountType,
+            accountType: accountType,
+            Currency: (balanceData.Currency ?? balanceData.currency ?? mt5Account.currency) || 'USD',
+            currency: (balanceData.Currency ?? balanceData.currency ?? mt5Account.currency) || 'USD',
+            killSwitchActive: mt5Account.killSwitchActive,
+            killSwitchUntil: mt5Account.killSwitchUntil,
           }
-        }
-      } catch (err) {
-        // Silent fail - use database data
+        });
       }
+    } catch (err) {
+      // Silent fail - use database data
     }
 
     // Fallback to database data
@@ -679,4 +528,149 @@ router.post('/:accountId/topup', authenticateToken, async (req: Request, res: Re
   }
 });
 
+/**
+ * GET /api/accounts/:accountId/analytics
+ * Performance statistics from closed trades (optional from/to, timezone).
+ * Cached per account and served only while no trade has closed since.
+ */
+router.get('/:accountId/analytics', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { accountId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const query = parseBody(analyticsQuerySchema, req.query, res);
+    if (!query) return;
+
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        OR: [
+          { id: accountId as string },
+          { accountId: accountId as string }
+        ],
+        userId: userId,
+        archived: false,
+      }
+    });
+
+    if (!mt5Account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found',
+      });
+    }
+
+    // Buckets follow the terminal's timezone setting; browser-local time is
+    // unknown here, so it falls back to UTC
+    let timezone = query.timezone;
+    if (!timezone) {
+      const settings = await getTerminalSettings(userId);
+      timezone = settings.timezone === 'local' ? 'UTC' : settings.timezone;
+    }
+
+    const cacheKey = JSON.stringify([query.from ?? null, query.to ?? null, timezone]);
+    const client = new MetaApiClient(mt5Account, `analytics_${userId}`);
+    const cached = await analyticsCache.get(mt5Account.accountId, cacheKey);
+    let trades: Awaited<ReturnType<typeof fetchClosedTrades>> | null = null;
+    if (cached) {
+      // Only serve the cached result if no trade closed after the one it was
+      // computed from; closes outside this backend are not invalidated
+      const recent = await fetchClosedTrades(client, {
+        from: cached.latestTrade?.closeTime ?? query.from,
+        to: query.to,
+      });
+      if (!hasNewerTrade(recent, cached.latestTrade)) {
+        return res.json({
+          success: true,
+          data: cached.analytics,
+          cached: true,
+        });
+      }
+      // Without a latest trade the lookup already covered the whole range
+      if (!cached.latestTrade) trades = recent;
+    }
+
+    trades ??= await fetchClosedTrades(client, { from: query.from, to: query.to });
+    const analytics = computeAnalytics(trades, { timezone, from: query.from, to: query.to });
+    await analyticsCache.set(mt5Account.accountId, cacheKey, { analytics, latestTrade: getLatestTrade(trades) });
+
+    return res.json({
+      success: true,
+      data: analytics,
+      cached: false,
+    });
+  } catch (error) {
+    return sendRouteError(res, error, 'Failed to compute account analytics');
+  }
+});
+
+/**
+ * POST /api/accounts/:accountId/kill-switch
+ * Pause new trading on an account for a chosen duration (expires automatically)
+ */
+router.post('/:accountId/kill-switch', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { accountId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const body = parseBody(killSwitchActivationSchema, req.body, res);
+    if (!body) return;
+
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        OR: [
+          { id: accountId as string },
+          { accountId: accountId as string }
+        ],
+        userId: userId,
+        archived: false,
+      }
+    });
+
+    if (!mt5Account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found',
+      });
+    }
+
+    const updatedAccount = await prisma.mT5Account.update({
+      where: { id: mt5Account.id },
+      data: {
+        killSwitchActive: true,
+        killSwitchUntil: getKillSwitchUntil(mt5Account, body.duration),
+      },
+    });
+
+    return res.json({
+      success: true,
+      message: 'Kill switch activated',
+      data: {
+        accountId: updatedAccount.accountId,
+        killSwitchActive: updatedAccount.killSwitchActive,
+        killSwitchUntil: updatedAccount.killSwitchUntil,
+      },
+    });
+  } catch (error) {
+    console.error('[KillSwitch] Account activation error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to activate kill switch',
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,214 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { parseBody } from '../lib/validation.js';
+import { normalizeSymbol } from '../lib/marketFeed.js';
+import { ALERT_CONDITIONS, priceAlertEvaluator } from '../workers/priceAlertEvaluator.js';
+
+const router = Router();
+
+const createAlertSchema = z.object({
+  symbol: z.string().trim().min(1, 'Symbol is required'),
+  targetPrice: z.coerce.number().positive('Target price must be positive'),
+  condition: z.enum(ALERT_CONDITIONS),
+  isRepeating: z.boolean().default(false),
+});
+
+const updateAlertSchema = z.object({
+  targetPrice: z.coerce.number().positive('Target price must be positive').optional(),
+  condition: z.enum(ALERT_CONDITIONS).optional(),
+  isRepeating: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Refresh the evaluator after an alert change without blocking the response
+ */
+function reloadEvaluator(): void {
+  priceAlertEvaluator.reload().catch((error) => {
+    console.error('[Alerts] Evaluator reload failed:', error);
+  });
+}
+
+/**
+ * GET /api/alerts
+ * List price alerts for the authenticated user
+ * Query: symbol, active=true|false
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { symbol, active } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const alerts = await prisma.priceAlert.findMany({
+      where: {
+        userId,
+        ...(typeof symbol === 'string' && symbol ? { symbol: normalizeSymbol(symbol) } : {}),
+        ...(active === 'true' || active === 'false' ? { isActive: active === 'true' } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return res.json({
+      success: true,
+      data: alerts,
+    });
+  } catch (error) {
+    console.error('[Alerts] List error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch price alerts',
+    });
+  }
+});
+
+/**
+ * POST /api/alerts
+ * Create a price alert
+ */
+router.post('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const body = parseBody(createAlertSchema, req.body, res);
+    if (!body) return;
+
+    const alert = await prisma.priceAlert.create({
+      data: {
+        userId,
+        symbol: normalizeSymbol(body.symbol),
+        targetPrice: body.targetPrice,
+        condition: body.condition,
+        isRepeating: body.isRepeating,
+      },
+    });
+
+    reloadEvaluator();
+
+    return res.status(201).json({
+      success: true,
+      data: alert,
+    });
+  } catch (error) {
+    console.error('[Alerts] Create error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create price alert',
+    });
+  }
+});
+
+/**
+ * PATCH /api/alerts/:alertId
+ * Update a price alert. Changing the target or condition, or re-activating,
+ * re-arms the alert.
+ */
+router.patch('/:alertId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const alertId = String(req.params.alertId);
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const body = parseBody(updateAlertSchema, req.body, res);
+    if (!body) return;
+
+    const existing = await prisma.priceAlert.findFirst({
+      where: { id: alertId, userId },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Price alert not found',
+      });
+    }
+
+    const rearm = body.targetPrice !== undefined || body.condition !== undefined || body.isActive === true;
+
+    const alert = await prisma.priceAlert.update({
+      where: { id: existing.id },
+      data: {
+        ...body,
+        ...(rearm ? { isTriggered: false, triggeredAt: null } : {}),
+      },
+    });
+
+    reloadEvaluator();
+
+    return res.json({
+      success: true,
+      data: alert,
+    });
+  } catch (error) {
+    console.error('[Alerts] Update error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update price alert',
+    });
+  }
+});
+
+/**
+ * DELETE /api/alerts/:alertId
+ * Delete a price alert
+ */
+router.delete('/:alertId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const alertId = String(req.params.alertId);
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const deleted = await prisma.priceAlert.deleteMany({
+      where: { id: alertId, userId },
+    });
+
+    if (deleted.count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Price alert not found',
+      });
+    }
+
+    reloadEvaluator();
+
+    return res.json({
+      success: true,
+      message: 'Price alert deleted',
+    });
+  } catch (error) {
+    console.error('[Alerts] Delete error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete price alert',
+    });
+  }
+});
+
+export default router;
@@ -11,6 +11,8 @@ import {
 } from '../lib/auth.js';
 import { ensureDefaultFavorites } from '../lib/default-favorites.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { parseBody } from '../lib/validation.js';
+import { getKillSwitchUntil, killSwitchActivationSchema } from '../lib/killSwitch.js';
 
 const router = Router();
 
@@ -296,6 +298,58 @@ router.get('/me', authenticateToken, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/auth/kill-switch
+ * Pause new trading on all of the user's accounts for a chosen duration
+ * (expires automatically)
+ */
+router.post('/kill-switch', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Not authenticated.',
+      });
+    }
+
+    const body = parseBody(killSwitchActivationSchema, req.body, res);
+    if (!body) return;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { killSwitchActive: true, killSwitchUntil: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found.',
+      });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: req.user.userId },
+      data: {
+        killSwitchActive: true,
+        killSwitchUntil: getKillSwitchUntil(user, body.duration),
+      },
+      select: { killSwitchActive: true, killSwitchUntil: true },
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Kill switch activated.',
+      data: updated,
+    });
+  } catch (error) {
+    console.error('Kill Switch API Error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An internal server error occurred.',
+    });
+  }
+});
+
 /**
  * POST /api/auth/logout
  * Logout endpoint
@@ -2,6 +2,7 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/db.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { mapInstrumentGroup } from '../lib/instruments.js';
 
 const router = Router();
 
@@ -21,14 +22,7 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
             });
         }
 
-        let targetGroup = group;
-        if (group.includes('\\Bbook\\Pro\\')) {
-            targetGroup = group.replace('\\Bbook\\Pro\\', '\\LP\\Pro\\');
-        } else if (group.includes('\\Bbook\\Startup\\')) {
-            targetGroup = group.replace('\\Bbook\\Startup\\', '\\NLP\\Start-up\\');
-        } else if (group.includes('\\Bbook\\')) {
-            targetGroup = group.replace('\\Bbook\\', '\\LP\\');
-        }
+        const targetGroup = mapInstrumentGroup(group);
 
         // Use raw query to avoid Prisma Client generation/property name issues
         const [instruments, ibSpreads] = await Promise.all([
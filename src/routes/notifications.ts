@@ -0,0 +1,225 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { parseBody } from '../lib/validation.js';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  // Comma-separated list, e.g. type=order_filled,position_closed
+  type: z.string().trim().min(1).optional(),
+  isRead: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * GET /api/notifications
+ * List notifications for the authenticated user, newest first
+ * Query: page, pageSize, type, isRead=true|false
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const query = parseBody(listQuerySchema, req.query, res);
+    if (!query) return;
+
+    const types = query.type?.split(',').map(t => t.trim()).filter(Boolean);
+    const where = {
+      userId,
+      ...(types && types.length > 0 ? { type: { in: types } } : {}),
+      ...(query.isRead ? { isRead: query.isRead === 'true' } : {}),
+    };
+
+    const [notifications, total] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      prisma.notification.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: notifications,
+      pagination: {
+        page: query.page,
+        pageSize: query.pageSize,
+        total,
+        totalPages: Math.ceil(total / query.pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('[Notifications] List error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notifications',
+    });
+  }
+});
+
+/**
+ * GET /api/notifications/unread-count
+ * Number of unread notifications (for the bell badge)
+ */
+router.get('/unread-count', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const count = await prisma.notification.count({
+      where: { userId, isRead: false },
+    });
+
+    return res.json({
+      success: true,
+      data: { count },
+    });
+  } catch (error) {
+    console.error('[Notifications] Unread count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch unread count',
+    });
+  }
+});
+
+/**
+ * POST /api/notifications/read-all
+ * Mark all notifications as read
+ */
+router.post('/read-all', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true, readAt: new Date() },
+    });
+
+    return res.json({
+      success: true,
+      data: { updated: count },
+    });
+  } catch (error) {
+    console.error('[Notifications] Read all error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to mark notifications as read',
+    });
+  }
+});
+
+/**
+ * PATCH /api/notifications/:notificationId/read
+ * Mark a notification as read
+ */
+router.patch('/:notificationId/read', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const notificationId = String(req.params.notificationId);
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const existing = await prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found',
+      });
+    }
+
+    // Keep the original readAt if it was already read
+    const notification = existing.isRead
+      ? existing
+      : await prisma.notification.update({
+        where: { id: existing.id },
+        data: { isRead: true, readAt: new Date() },
+      });
+
+    return res.json({
+      success: true,
+      data: notification,
+    });
+  } catch (error) {
+    console.error('[Notifications] Mark read error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to mark notification as read',
+    });
+  }
+});
+
+/**
+ * DELETE /api/notifications/:notificationId
+ * Delete a notification
+ */
+router.delete('/:notificationId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const notificationId = String(req.params.notificationId);
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { count } = await prisma.notification.deleteMany({
+      where: { id: notificationId, userId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Notification deleted',
+    });
+  } catch (error) {
+    console.error('[Notifications] Delete error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete notification',
+    });
+  }
+});
+
+export default router;
@@ -1,35 +1,60 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import type { MT5Account } from '@prisma/client';
 import { prisma } from '../lib/db.js';
 import { authenticateToken } from '../middleware/auth.js';
-import { tokenCache } from '../lib/tokenCache.js';
+import { blockWhenKillSwitchActive } from '../middleware/killSwitch.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { sendRouteError } from '../middleware/errorHandler.js';
+import { extractOrderId, extractOrderTicket, extractSide, MetaApiClient, MetaApiError, PendingOrderEndpoint, PendingOrderParams, TradeResult, TradeSide } from '../lib/metaapi.js';
+import { resolveAutoTPSL } from '../lib/autoTpsl.js';
+import { notify } from '../lib/notifications.js';
+import { findInstrument, getPointSize } from '../lib/instruments.js';
+import { getMarketFeed, normalizeSymbol } from '../lib/marketFeed.js';
+import { FieldError, parseBody, sendFieldErrors } from '../lib/validation.js';
+import { checkMargin, validateOrderSpec, validateStopLimitPrices } from '../lib/tradeValidation.js';
+import { toBridgeVolume } from '../lib/volumeScale.js';
+import { getTerminalSettings } from '../lib/terminalSettings.js';
+import { OrderExpiration, resolveExpiration } from '../lib/orderExpiration.js';
+import { BULK_TRADE_CONCURRENCY, mapWithConcurrency } from '../lib/concurrency.js';
+import { bracketSchema, ORDER_LINK_STATUSES, validateBracket } from '../lib/orderLinks.js';
+import { orderLinkWorker } from '../workers/orderLinkWorker.js';
 
 const router = Router();
 
+const bracketRequestSchema = z.object({
+  bracket: bracketSchema,
+});
+
 // Test route to verify router is working
 router.get('/test', (req: Request, res: Response) => {
   res.json({ success: true, message: 'Orders router is working' });
 });
 
 /**
- * Helper to determine the volume for pending orders sent to the C# MT5 API bridge.
- * The broker's bridge expects exact lots (float) for most symbols (Forex, Metals),
- * but expects lots * 100 for Crypto symbols like BTC/ETH.
+ * Build the JSON response for an accepted order request.
+ * 10012 (Request Placed) is reported as success with status 'placed'.
  */
-function getPendingOrderVolume(symbol: string, volume: number): number {
-  const sym = (symbol || '').toUpperCase();
-  if (sym.includes('BTC') || sym.includes('ETH')) {
-    return Math.round(parseFloat(String(volume)) * 100);
+function orderResponseBody(result: TradeResult) {
+  if (result.requestPlaced) {
+    return {
+      success: true,
+      data: result.data,
+      message: 'Order initiated. Processing on server.',
+      status: 'placed',
+    };
   }
-  // The broker's bridge puts a 10x multiplier natively on Forex pending orders.
-  // So to place 0.01 lots, we must send 0.001.
-  return Number((parseFloat(String(volume)) / 10).toFixed(4));
+  return {
+    success: true,
+    data: result.data,
+  };
 }
 
 /**
  * POST /api/orders/market
  * Place a market order (buy or sell)
  */
-router.post('/market', authenticateToken, async (req: Request, res: Response) => {
+router.post('/market', authenticateToken, blockWhenKillSwitchActive, idempotency, async (req: Request, res: Response) => {
   try {
     const userId = req.user?.userId;
     const { accountId, symbol, side, volume, stopLoss, takeProfit } = req.body;
@@ -75,169 +100,266 @@ router.post('/market', authenticateToken, async (req: Request, res: Response) =>
       });
     }
 
-    // Authenticate with MetaAPI to get access token
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
-
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
-
-    let accessToken: string | null = tokenCache.get(String(accountId));
-    const actualMt5AccountId = mt5Account.accountId;
-    try {
-      if (!accessToken) {
-        const loginPayload = {
-          AccountId: parseInt(actualMt5AccountId, 10),
-          Password: mt5Account.password?.trim() || '',
-          DeviceId: `web_order_${userId}_${Date.now()}`,
-          DeviceType: 'web',
-        };
-
-        const loginResponse = await fetch(loginUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(loginPayload),
-        });
+    // Normalize symbol (remove / if present)
+    const normalizedSymbol = symbol.replace('/', '');
+    const lots = parseFloat(volume);
+    const client = new MetaApiClient(mt5Account, `order_${userId}`);
+
+    const instrument = await findInstrument(normalizedSymbol, mt5Account.group);
+    if (instrument) {
+      const specErrors = validateOrderSpec(side, lots, instrument);
+      if (specErrors.length > 0) {
+        return sendFieldErrors(res, specErrors, specErrors[0].message);
+      }
 
-        if (loginResponse.ok) {
-          const loginData = await loginResponse.json() as any;
-          accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-          if (accessToken) {
-            tokenCache.set(String(accountId), accessToken, 3600);
-          }
+      // The order fills at the market, so the margin is priced at the current
+      // quote. Without one (e.g. no market hub configured) the check is
+      // skipped like an unavailable balance: the bridge has the final say.
+      const tick = await getMarketFeed().getQuote(normalizedSymbol);
+      if (tick) {
+        const margin = await checkMargin({
+          client,
+          account: mt5Account,
+          instrument,
+          volume: lots,
+          price: side === 'buy' ? tick.ask : tick.bid,
+        });
+        if (margin?.error) {
+          return sendFieldErrors(res, [margin.error], margin.error.message, 'INSUFFICIENT_MARGIN');
         }
+      } else {
+        console.warn(`[Orders] No quote for ${normalizedSymbol}, skipping margin check`);
       }
-    } catch (err) {
-      console.error('[Orders] MetaAPI login error:', err);
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
     }
 
-    if (!accessToken) {
-      return res.status(401).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
-    }
-
-    // Place market order via MetaAPI
-    // Normalize symbol (remove / if present)
-    const normalizedSymbol = symbol.replace('/', '');
-
-    // The MetaAPI C# backend expects volume * 100 for ALL symbols in Market Orders
-    const volumeInUnits = Math.round(parseFloat(volume) * 100);
-
-    // Use different endpoints for buy vs sell (as per zuperior-terminal)
-    // Buy: /client/trade, Sell: /client/trade-sell
-    // The endpoint itself determines buy vs sell, no Action field needed
-    // AccountId is passed as query parameter, not in body
-    const tradePath = side === 'sell' ? 'trade-sell' : 'trade';
-    const orderUrl = `${LIVE_API_URL.replace(/\/$/, '')}/client/${tradePath}?account_id=${encodeURIComponent(accountId)}`;
-
-    // Build payload matching zuperior-terminal format (lowercase field names, no Action/AccountId fields)
-    const orderPayload: any = {
-      symbol: normalizedSymbol,
-      volume: volumeInUnits,
-      price: 0, // Market orders use price: 0
-    };
+    // Bridge volume units differ per symbol and operation (see VolumeScale)
+    const volumeInUnits = await toBridgeVolume(lots, 'market', normalizedSymbol, instrument?.category);
 
     // Add TP/SL if provided (use 0 if not set, matching zuperior-terminal)
     const hasSL = stopLoss !== undefined && stopLoss !== null && parseFloat(String(stopLoss)) > 0;
     const hasTP = takeProfit !== undefined && takeProfit !== null && parseFloat(String(takeProfit)) > 0;
-    orderPayload.stopLoss = hasSL ? parseFloat(String(stopLoss)) : 0;
-    orderPayload.takeProfit = hasTP ? parseFloat(String(takeProfit)) : 0;
-
-    // Add comment (optional)
-    orderPayload.comment = side === 'sell' ? 'Sell' : 'Buy';
-
-    try {
-      const orderResponse = await fetch(orderUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(orderPayload),
-      });
-
-      let orderData: any;
-      try {
-        orderData = await orderResponse.json();
-      } catch (e) {
-        // If response is not JSON, use text
-        const text = await orderResponse.text();
-        orderData = { message: text || 'Unknown error' };
-      }
-
-      if (!orderResponse.ok) {
-        // Handle 10012 return code (Request Placed) - treated as success in terminal
-        const returnCode = orderData?.returnCode || orderData?.ReturnCode;
-        if (returnCode === 10012) {
-          // console.log('[Orders] Market order: Request Placed (10012) - treating as success');
-          return res.json({
-            success: true,
-            data: orderData,
-            message: 'Order initiated. Processing on server.',
-            status: 'placed'
-          });
-        }
 
-        console.error('[Orders] Market order failed:', {
-          status: orderResponse.status,
-          statusText: orderResponse.statusText,
-          data: orderData,
-          payload: orderPayload,
-        });
-        return res.status(orderResponse.status).json({
+    let sl = hasSL ? parseFloat(String(stopLoss)) : 0;
+    let tp = hasTP ? parseFloat(String(takeProfit)) : 0;
+
+    // Fill in the user's default SL/TP when the order carries neither
+    const autoTPSL = !hasSL && !hasTP
+      ? await resolveAutoTPSL({ userId, symbol: normalizedSymbol, side, group: mt5Account.group })
+      : null;
+    if (autoTPSL?.applied) {
+      sl = autoTPSL.stopLoss ?? 0;
+      tp = autoTPSL.takeProfit ?? 0;
+    } else if (autoTPSL) {
+      if (autoTPSL.required) {
+        // Without a quote a retry may succeed; an unknown instrument will not
+        return res.status(autoTPSL.reason === 'NO_QUOTE' ? 503 : 422).json({
           success: false,
-          message: orderData?.message || orderData?.Message || orderData?.error || 'Failed to place market order',
-          error: orderData,
+          message: autoTPSL.reason === 'NO_QUOTE'
+            ? `No current price for ${normalizedSymbol} to set your default SL/TP from. The order was not placed; please try again.`
+            : `Your default SL/TP cannot be set for ${normalizedSymbol}. The order was not placed.`,
+          error: 'AUTO_TPSL_UNAVAILABLE',
+          autoTPSL,
         });
       }
+      console.warn(`[Orders] Default SL/TP not applied to ${normalizedSymbol} (${autoTPSL.reason}), placing the order without them`);
+    }
 
-      // console.log('[Orders] Market order placed successfully:', orderData);
+    const result = await client.placeMarketOrder({
+      symbol: normalizedSymbol,
+      side,
+      volume: volumeInUnits,
+      stopLoss: sl,
+      takeProfit: tp,
+    });
 
-      return res.json({
-        success: true,
-        data: orderData,
-      });
-    } catch (err) {
-      console.error('[Orders] Market order error:', err);
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to place market order',
-        error: err instanceof Error ? err.message : 'Unknown error',
-      });
-    }
+    notify({
+      userId,
+      type: result.requestPlaced ? 'order_placed' : 'order_filled',
+      title: result.requestPlaced ? 'Order placed' : 'Order filled',
+      message: `${side === 'buy' ? 'Buy' : 'Sell'} ${lots} ${normalizedSymbol}${result.requestPlaced ? ' is being processed' : ' filled'}`,
+      metadata: {
+        accountId: mt5Account.accountId,
+        symbol: normalizedSymbol,
+        side,
+        volume: lots,
+        stopLoss: sl || null,
+        takeProfit: tp || null,
+      },
+    });
+
+    return res.json({
+      ...orderResponseBody(result),
+      ...(autoTPSL && { autoTPSL }),
+    });
   } catch (error) {
     console.error('[Orders] Market order error:', error);
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
+    return sendRouteError(res, error, 'Failed to place market order');
   }
 });
 
+interface PendingOrderRequest {
+  symbol?: any;
+  side?: any;
+  volume?: any;
+  price?: any;
+  limitPrice?: any;
+  orderType?: any;
+  stopLoss?: any;
+  takeProfit?: any;
+  expirationMode?: any;
+  expiration?: any;
+}
+
+/**
+ * A pending order that passed validation and is ready for the bridge
+ */
+interface PreparedPendingOrder {
+  endpoint: PendingOrderEndpoint;
+  side: TradeSide;
+  params: PendingOrderParams;
+  expiration: OrderExpiration;
+  /** Price the order fills at (the limit price for stop-limit orders) */
+  fillPrice: number;
+  instrument: Awaited<ReturnType<typeof findInstrument>>;
+}
+
+interface PendingOrderRejection {
+  status: number;
+  message: string;
+  errors?: FieldError[];
+  code?: string;
+}
+
+/**
+ * Bridge endpoint for a side and orderType: 'limit' = Buy Limit (2) or Sell Limit (3),
+ * 'stop' = Buy Stop (4) or Sell Stop (5), 'stop-limit' = Buy Stop Limit (6) or Sell Stop Limit (7)
+ */
+function getPendingEndpoint(side: TradeSide, orderType: unknown): PendingOrderEndpoint | null {
+  if (orderType !== 'limit' && orderType !== 'stop' && orderType !== 'stop-limit') return null;
+  return `${side}-${orderType}`;
+}
+
+/**
+ * Check a pending order request and resolve everything the bridge needs:
+ * endpoint, instrument spec and margin, expiry and bridge volume
+ */
+async function preparePendingOrder(
+  order: PendingOrderRequest,
+  context: { userId: string; mt5Account: MT5Account; client: MetaApiClient }
+): Promise<{ value: PreparedPendingOrder; rejection?: undefined } | { value?: undefined; rejection: PendingOrderRejection }> {
+  const { symbol, side, volume, price, limitPrice, orderType, stopLoss, takeProfit, expirationMode, expiration } = order;
+
+  if (!symbol || !side || !volume || !price || !orderType) {
+    return { rejection: { status: 400, message: 'Missing required fields: accountId, symbol, side, volume, price, orderType' } };
+  }
+
+  // Validate side
+  if (side !== 'buy' && side !== 'sell') {
+    return { rejection: { status: 400, message: 'Invalid side. Must be "buy" or "sell"' } };
+  }
+
+  // Each MT5 type has its own bridge endpoint
+  const endpoint = getPendingEndpoint(side, orderType);
+  if (!endpoint) {
+    return { rejection: { status: 400, message: 'Invalid orderType. Must be "limit", "stop" or "stop-limit"' } };
+  }
+
+  const isStopLimit = orderType === 'stop-limit';
+  if (isStopLimit && (limitPrice === undefined || limitPrice === null || limitPrice === '')) {
+    const error = { field: 'limitPrice', message: 'limitPrice is required for stop-limit orders' };
+    return { rejection: { status: 400, message: error.message, errors: [error] } };
+  }
+
+  // Use symbol as-is (matching zuperior-terminal - they use String(symbol) without normalization)
+  const symbolStr = String(symbol);
+  const lots = parseFloat(volume);
+  // A stop-limit order fills at its limit price
+  const fillPrice = isStopLimit ? Number(limitPrice) : Number(price);
+
+  if (isStopLimit) {
+    const quote = await getMarketFeed().getQuote(symbolStr);
+    const priceErrors = validateStopLimitPrices(side, Number(price), Number(limitPrice), quote);
+    if (priceErrors.length > 0) {
+      return { rejection: { status: 400, message: priceErrors[0].message, errors: priceErrors } };
+    }
+  }
+
+  const instrument = await findInstrument(symbolStr, context.mt5Account.group);
+  if (instrument) {
+    const specErrors = validateOrderSpec(side, lots, instrument);
+    if (specErrors.length > 0) {
+      return { rejection: { status: 400, message: specErrors[0].message, errors: specErrors } };
+    }
+
+    const margin = await checkMargin({
+      client: context.client,
+      account: context.mt5Account,
+      instrument,
+      volume: lots,
+      price: fillPrice,
+    });
+    if (margin?.error) {
+      return { rejection: { status: 400, message: margin.error.message, errors: [margin.error], code: 'INSUFFICIENT_MARGIN' } };
+    }
+  }
+
+  // GTC needs no timezone, so skip the settings lookup for it
+  const timezone = expirationMode && expirationMode !== 'gtc'
+    ? (await getTerminalSettings(context.userId)).timezone
+    : null;
+  const expiry = resolveExpiration({ expirationMode, expiration }, timezone);
+  if (expiry.error) {
+    return { rejection: { status: 400, message: expiry.error.message, errors: [expiry.error] } };
+  }
+
+  return {
+    value: {
+      endpoint,
+      side,
+      fillPrice,
+      instrument,
+      expiration: expiry.value,
+      params: {
+        symbol: symbolStr,
+        price: Number(price),
+        stopLimitPrice: isStopLimit ? Number(limitPrice) : undefined,
+        volume: await toBridgeVolume(lots, 'pending', symbolStr, instrument?.category),
+        stopLoss: Number(stopLoss || 0),
+        takeProfit: Number(takeProfit || 0),
+        typeTime: expiry.value.typeTime,
+        expiration: expiry.value.expiration,
+      },
+    },
+  };
+}
+
+/**
+ * Send a rejected pending order. `prefix` scopes field names and the message
+ * to one order of a multi-order request (e.g. 'orders.1').
+ */
+function sendPendingRejection(res: Response, rejection: PendingOrderRejection, prefix?: string) {
+  const message = prefix ? `${prefix}: ${rejection.message}` : rejection.message;
+  if (rejection.errors) {
+    const errors = prefix
+      ? rejection.errors.map(error => ({ ...error, field: `${prefix}.${error.field}` }))
+      : rejection.errors;
+    return sendFieldErrors(res, errors, message, rejection.code);
+  }
+  return res.status(rejection.status).json({
+    success: false,
+    message,
+  });
+}
+
 /**
  * POST /api/orders/pending
- * Place a pending order (limit or stop)
+ * Place a pending order (limit, stop or stop-limit)
+ * Stop-limit orders take the trigger price in `price` and the limit price in `limitPrice`
  */
-router.post('/pending', authenticateToken, async (req: Request, res: Response) => {
-  // console.log('[Orders] POST /api/orders/pending hit', { body: req.body });
+router.post('/pending', authenticateToken, blockWhenKillSwitchActive, async (req: Request, res: Response) => {
   try {
     const userId = req.user?.userId;
-    const { accountId, symbol, side, volume, price, orderType, stopLoss, takeProfit } = req.body;
+    const { accountId } = req.body;
 
     if (!userId) {
       return res.status(401).json({
@@ -246,36 +368,145 @@ router.post('/pending', authenticateToken, async (req: Request, res: Response) =
       });
     }
 
-    if (!accountId || !symbol || !side || !volume || !price || !orderType) {
+    if (!accountId) {
       return res.status(400).json({
         success: false,
         message: 'Missing required fields: accountId, symbol, side, volume, price, orderType',
       });
     }
 
-    // Validate side
-    if (side !== 'buy' && side !== 'sell') {
-      return res.status(400).json({
+    // Get MT5 account from database
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [
+          { id: String(accountId) },
+          { accountId: String(accountId) }
+        ],
+        archived: false,
+      },
+    });
+
+    if (!mt5Account) {
+      return res.status(404).json({
         success: false,
-        message: 'Invalid side. Must be "buy" or "sell"',
+        message: 'MT5 account not found',
+      });
+    }
+
+    const client = new MetaApiClient(mt5Account, `pending_${userId}`);
+    const prepared = await preparePendingOrder(req.body, { userId, mt5Account, client });
+    if (prepared.rejection) {
+      return sendPendingRejection(res, prepared.rejection);
+    }
+
+    const { endpoint, params, expiration } = prepared.value;
+    const result = await client.placePendingOrder(endpoint, params);
+
+    return res.json({
+      ...orderResponseBody(result),
+      expiration: { mode: expiration.mode, expiresAt: expiration.expiresAt },
+    });
+  } catch (error) {
+    console.error('[Orders] Pending order error:', error);
+    return sendRouteError(res, error, 'Failed to place pending order');
+  }
+});
+
+/**
+ * Ticket of a pending order the bridge accepted without reporting one: the
+ * only order on the account, other than those in `known`, with its symbol,
+ * side and price
+ */
+async function findPlacedOrderTicket(
+  client: MetaApiClient,
+  order: PreparedPendingOrder,
+  known: Set<number>
+): Promise<number | null> {
+  const rows = await client.getOrders().catch(() => null);
+  if (!rows) return null;
+
+  const tolerance = (order.instrument ? getPointSize(order.instrument) : 1e-8) / 2;
+  const matches = rows.filter((row: any) => {
+    const price = Number(row.PriceOrder ?? row.priceOrder ?? row.PriceOpen ?? row.priceOpen ?? row.Price ?? row.price);
+    return !known.has(extractOrderId(row))
+      && normalizeSymbol(row.Symbol ?? row.symbol) === normalizeSymbol(order.params.symbol)
+      && extractSide(row) === order.side
+      && Math.abs(price - order.params.price) <= tolerance;
+  });
+  return matches.length === 1 ? extractOrderId(matches[0]) : null;
+}
+
+/**
+ * Place pending orders that are about to be linked. A ticket the bridge does
+ * not report is looked up among the account's pending orders. If an order
+ * fails, the orders placed so far are cancelled so no half-linked set is left
+ * behind; an order whose ticket cannot be found is reported in the error.
+ */
+async function placeLinkedOrders(
+  client: MetaApiClient,
+  orders: PreparedPendingOrder[]
+): Promise<{ ticket: number; result: TradeResult }[]> {
+  // Orders pending before this request, so a missing ticket is not matched to one of them
+  const existing = await client.getOrders()
+    .then(rows => new Set(rows.map(extractOrderId)))
+    .catch(() => null);
+
+  const placed: { ticket: number; result: TradeResult }[] = [];
+  try {
+    for (const order of orders) {
+      const result = await client.placePendingOrder(order.endpoint, order.params);
+      let ticket = extractOrderTicket(result.data);
+      if (ticket === null && existing) {
+        ticket = await findPlacedOrderTicket(client, order, new Set([...existing, ...placed.map(p => p.ticket)]));
+      }
+      if (ticket === null) {
+        throw new MetaApiError(
+          'Order placed, but its ticket could not be determined so it was not linked. It is still pending on the account and must be cancelled manually.',
+          502,
+          { unlinkedOrder: { symbol: order.params.symbol, side: order.side, price: order.params.price, result: result.data } }
+        );
+      }
+      placed.push({ ticket, result });
+    }
+  } catch (error) {
+    await Promise.allSettled(placed.map(order => client.cancelPendingOrder(order.ticket)));
+    throw error;
+  }
+  return placed;
+}
+
+/**
+ * Apply link changes to the running worker
+ */
+function reloadOrderLinks(): void {
+  orderLinkWorker.reload().catch((error) => {
+    console.error('[Orders] Order link reload failed:', error);
+  });
+}
+
+/**
+ * POST /api/orders/oco
+ * Place two pending orders as one-cancels-other: once one fills, or is
+ * cancelled or expires, the other is cancelled.
+ * Body: { accountId, orders: [order, order] }, each order shaped like POST /pending
+ */
+router.post('/oco', authenticateToken, blockWhenKillSwitchActive, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { accountId, orders } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
       });
     }
 
-    // Validate orderType: 'limit' = Buy Limit (2) or Sell Limit (3), 'stop' = Buy Stop (4) or Sell Stop (5)
-    // Map: buy + limit = 2, sell + limit = 3, buy + stop = 4, sell + stop = 5
-    let type: number;
-    if (side === 'buy' && orderType === 'limit') {
-      type = 2; // Buy Limit
-    } else if (side === 'sell' && orderType === 'limit') {
-      type = 3; // Sell Limit
-    } else if (side === 'buy' && orderType === 'stop') {
-      type = 4; // Buy Stop
-    } else if (side === 'sell' && orderType === 'stop') {
-      type = 5; // Sell Stop
-    } else {
+    if (!accountId || !Array.isArray(orders) || orders.length !== 2) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid orderType. Must be "limit" or "stop"',
+        message: 'Missing required fields: accountId, orders (exactly two pending orders)',
       });
     }
 
@@ -298,210 +529,234 @@ router.post('/pending', authenticateToken, async (req: Request, res: Response) =
       });
     }
 
-    // Authenticate with MetaAPI
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
-
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
-
-    let accessToken: string | null = tokenCache.get(String(accountId));
-    const actualMt5AccountId = mt5Account.accountId;
-    try {
-      if (!accessToken) {
-        const loginPayload = {
-          AccountId: parseInt(actualMt5AccountId, 10),
-          Password: mt5Account.password?.trim() || '',
-          DeviceId: `web_pending_${userId}_${Date.now()}`,
-          DeviceType: 'web',
-        };
-
-        const loginResponse = await fetch(loginUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(loginPayload),
-        });
+    if (normalizeSymbol(orders[0]?.symbol) !== normalizeSymbol(orders[1]?.symbol)) {
+      return sendFieldErrors(res, [{ field: 'orders.1.symbol', message: 'Both orders must be on the same symbol' }], 'Both orders must be on the same symbol');
+    }
 
-        if (loginResponse.ok) {
-          const loginData = await loginResponse.json() as any;
-          accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-          if (accessToken) {
-            tokenCache.set(String(accountId), accessToken, 3600);
-          }
-        }
+    const client = new MetaApiClient(mt5Account, `oco_${userId}`);
+    const prepared: PreparedPendingOrder[] = [];
+    for (const [index, order] of orders.entries()) {
+      const result = await preparePendingOrder(order ?? {}, { userId, mt5Account, client });
+      if (result.rejection) {
+        return sendPendingRejection(res, result.rejection, `orders.${index}`);
       }
-    } catch (err) {
-      console.error('[Orders] MetaAPI login error:', err);
-      return res.status(500).json({
+      prepared.push(result.value);
+    }
+
+    const placed = await placeLinkedOrders(client, prepared);
+    const link = await prisma.orderLink.create({
+      data: {
+        userId,
+        mt5AccountId: mt5Account.id,
+        type: 'oco',
+        symbol: prepared[0].params.symbol,
+        primaryOrderId: String(placed[0].ticket),
+        secondaryOrderId: String(placed[1].ticket),
+      },
+    });
+
+    reloadOrderLinks();
+
+    return res.json({
+      success: true,
+      data: {
+        link,
+        orders: placed.map(order => order.result.data),
+      },
+      message: 'OCO orders placed',
+    });
+  } catch (error) {
+    console.error('[Orders] OCO order error:', error);
+    return sendRouteError(res, error, 'Failed to place OCO orders');
+  }
+});
+
+/**
+ * POST /api/orders/bracket
+ * Place a pending entry order with linked SL/TP.
+ * Body: the POST /pending fields plus bracket: { mode, stopLoss, takeProfit };
+ * mode 'price' (default) takes prices, which are set on the entry order;
+ * 'points' and 'percent' take distances from the fill price, which are set
+ * on the position once it fills.
+ */
+router.post('/bracket', authenticateToken, blockWhenKillSwitchActive, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { accountId } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        message: 'Unauthorized',
       });
     }
 
-    if (!accessToken) {
-      return res.status(401).json({
+    if (!accountId) {
+      return res.status(400).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        message: 'Missing required fields: accountId, symbol, side, volume, price, orderType, bracket',
       });
     }
 
-    // Place pending order via MetaAPI
-    // Use symbol as-is (matching zuperior-terminal - they use String(symbol) without normalization)
-    const symbolStr = String(symbol);
+    const body = parseBody(bracketRequestSchema, req.body, res);
+    if (!body) return;
 
-    // The MetaAPI C# backend expects exact lots for Forex/Metals Pending Orders, but 100x for Crypto Pending
-    const volumeToSend = getPendingOrderVolume(symbolStr, parseFloat(volume));
+    // Get MT5 account from database
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [
+          { id: String(accountId) },
+          { accountId: String(accountId) }
+        ],
+        archived: false,
+      },
+    });
 
-    // Build payload matching zuperior-terminal format exactly
-    // Always include all fields, even if 0 (matching zuperior-terminal)
-    const orderPayload: any = {
-      Symbol: symbolStr,
-      Price: Number(price),
-      Volume: volumeToSend,
-      StopLoss: Number(stopLoss || 0),
-      TakeProfit: Number(takeProfit || 0),
-      Expiration: '0001-01-01T00:00:00', // Default expiration (no expiration)
-      Comment: '', // Empty comment
-    };
+    if (!mt5Account) {
+      return res.status(404).json({
+        success: false,
+        message: 'MT5 account not found',
+      });
+    }
+
+    const client = new MetaApiClient(mt5Account, `bracket_${userId}`);
+    const prepared = await preparePendingOrder(req.body, { userId, mt5Account, client });
+    if (prepared.rejection) {
+      return sendPendingRejection(res, prepared.rejection);
+    }
 
-    // Use specific endpoints for each order type (matching zuperior-terminal)
-    const endpointMap: Record<number, string> = {
-      2: 'buy-limit',    // Buy Limit
-      3: 'sell-limit',   // Sell Limit
-      4: 'buy-stop',     // Buy Stop
-      5: 'sell-stop',    // Sell Stop
+    const bracketErrors = validateBracket(prepared.value.side, prepared.value.fillPrice, body.bracket);
+    if (bracketErrors.length > 0) {
+      return sendFieldErrors(res, bracketErrors, bracketErrors[0].message);
+    }
+
+    // Price levels go out on the entry itself; distances need the fill price,
+    // so the worker sets those on the position
+    const priced = body.bracket.mode === 'price';
+    const entry = {
+      ...prepared.value,
+      params: {
+        ...prepared.value.params,
+        stopLoss: priced ? body.bracket.stopLoss ?? 0 : 0,
+        takeProfit: priced ? body.bracket.takeProfit ?? 0 : 0,
+      },
     };
+    const [placed] = await placeLinkedOrders(client, [entry]);
+    const link = await prisma.orderLink.create({
+      data: {
+        userId,
+        mt5AccountId: mt5Account.id,
+        type: 'bracket',
+        symbol: entry.params.symbol,
+        primaryOrderId: String(placed.ticket),
+        bracketMode: body.bracket.mode,
+        stopLoss: body.bracket.stopLoss ?? null,
+        takeProfit: body.bracket.takeProfit ?? null,
+      },
+    });
 
-    const endpoint = endpointMap[type];
-    if (!endpoint) {
-      return res.status(400).json({
+    reloadOrderLinks();
+
+    return res.json({
+      success: true,
+      data: {
+        link,
+        order: placed.result.data,
+      },
+      expiration: { mode: entry.expiration.mode, expiresAt: entry.expiration.expiresAt },
+      message: 'Bracket order placed',
+    });
+  } catch (error) {
+    console.error('[Orders] Bracket order error:', error);
+    return sendRouteError(res, error, 'Failed to place bracket order');
+  }
+});
+
+/**
+ * GET /api/orders/links
+ * OCO and bracket links. Optional query: accountId, status (default 'active', or 'all')
+ */
+router.get('/links', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const accountId = req.query.accountId ? String(req.query.accountId) : undefined;
+    const status = req.query.status ? String(req.query.status) : 'active';
+
+    if (!userId) {
+      return res.status(401).json({
         success: false,
-        message: `Invalid order type: ${type}`,
+        message: 'Unauthorized',
       });
     }
 
-    // Add account_id as query parameter (matching zuperior-terminal pattern)
-    const orderUrl = `${LIVE_API_URL.replace(/\/$/, '')}/client/${endpoint}?account_id=${encodeURIComponent(accountId)}`;
-
-    // Log the request for debugging (especially for stop orders)
-    // console.log('[Orders] Placing pending order:', {
-    //   endpoint,
-    //   url: orderUrl,
-    //   payload: orderPayload,
-    //   orderType: orderType,
-    //   side: side,
-    // });
-
-    try {
-      const orderResponse = await fetch(orderUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(orderPayload),
-      });
-
-      const responseText = await orderResponse.text().catch(() => '');
-      let orderData: any = null;
-
-      if (responseText && responseText.trim()) {
-        try {
-          orderData = JSON.parse(responseText);
-        } catch (parseErr) {
-          // If JSON parsing fails, use the raw text
-          orderData = {
-            message: responseText || orderResponse.statusText || 'Failed to parse response',
-            rawResponse: responseText,
-          };
-        }
-      } else {
-        // Empty response
-        if (orderResponse.ok) {
-          return res.json({
-            success: true,
-            data: {},
-          });
-        } else {
-          orderData = { message: orderResponse.statusText || 'Empty response from server' };
-        }
-      }
+    if (status !== 'all' && !(ORDER_LINK_STATUSES as readonly string[]).includes(status)) {
+      return sendFieldErrors(res, [{ field: 'status', message: `status must be one of all, ${ORDER_LINK_STATUSES.join(', ')}` }]);
+    }
 
-      // Log the full response for debugging
-      // console.log('[Orders] API Response:', {
-      //   status: orderResponse.status,
-      //   statusText: orderResponse.statusText,
-      //   endpoint,
-      //   responseData: orderData,
-      // });
-
-      if (!orderResponse.ok) {
-        // Handle 10012 return code (Request Placed) - treated as success in terminal
-        const returnCode = orderData?.returnCode || orderData?.ReturnCode;
-        if (returnCode === 10012) {
-          // console.log('[Orders] Pending order: Request Placed (10012) - treating as success');
-          return res.json({
-            success: true,
-            data: orderData,
-            message: 'Order initiated. Processing on server.',
-            status: 'placed'
-          });
-        }
+    const links = await prisma.orderLink.findMany({
+      where: {
+        userId,
+        ...(status !== 'all' && { status }),
+        ...(accountId && {
+          mt5Account: {
+            OR: [
+              { id: accountId },
+              { accountId: accountId }
+            ],
+          },
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
 
-        console.error('[Orders] Pending order API error:', {
-          status: orderResponse.status,
-          statusText: orderResponse.statusText,
-          endpoint,
-          orderType: orderType,
-          side: side,
-          responseData: orderData,
-          payload: orderPayload,
-        });
+    return res.json({
+      success: true,
+      data: links,
+    });
+  } catch (error) {
+    console.error('[Orders] List order links error:', error);
+    return sendRouteError(res, error, 'Failed to fetch order links');
+  }
+});
 
-        // Extract error message from various possible fields
-        const errorMessage = orderData?.message ||
-          orderData?.Message ||
-          orderData?.error ||
-          orderData?.Error ||
-          orderData?.ErrorMessage ||
-          orderData?.errorMessage ||
-          orderResponse.statusText ||
-          'Failed to place pending order';
-
-        return res.status(orderResponse.status).json({
-          success: false,
-          message: errorMessage,
-          error: orderData,
-        });
-      }
+/**
+ * DELETE /api/orders/links/:linkId
+ * Stop managing a link. Its orders stay as they are.
+ */
+router.delete('/links/:linkId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const linkId = String(req.params.linkId);
 
-      return res.json({
-        success: true,
-        data: orderData,
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
       });
-    } catch (err) {
-      console.error('[Orders] Pending order error:', err);
-      return res.status(500).json({
+    }
+
+    const updated = await prisma.orderLink.updateMany({
+      where: { id: linkId, userId, status: 'active' },
+      data: { status: 'unlinked', completedAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      return res.status(404).json({
         success: false,
-        message: 'Failed to place pending order',
-        error: err instanceof Error ? err.message : 'Unknown error',
+        message: 'Active order link not found',
       });
     }
-  } catch (error) {
-    console.error('[Orders] Pending order error:', error);
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+
+    reloadOrderLinks();
+
+    return res.json({
+      success: true,
+      message: 'Orders unlinked',
     });
+  } catch (error) {
+    console.error('[Orders] Unlink orders error:', error);
+    return sendRouteError(res, error, 'Failed to unlink orders');
   }
 });
 
@@ -509,11 +764,11 @@ router.post('/pending', authenticateToken, async (req: Request, res: Response) =
  * PUT /api/orders/pending/:orderId
  * Modify a pending order
  */
-router.put('/pending/:orderId', authenticateToken, async (req: Request, res: Response) => {
+router.put('/pending/:orderId', authenticateToken, blockWhenKillSwitchActive, async (req: Request, res: Response) => {
   try {
     const userId = req.user?.userId;
     const { orderId } = req.params;
-    const { accountId, price, stopLoss, takeProfit, volume } = req.body;
+    const { accountId, symbol, price, stopLoss, takeProfit, volume, expirationMode, expiration } = req.body;
 
     if (!userId) {
       return res.status(401).json({
@@ -548,124 +803,203 @@ router.put('/pending/:orderId', authenticateToken, async (req: Request, res: Res
       });
     }
 
-    // Authenticate with MetaAPI
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
-
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
-
-    let accessToken: string | null = tokenCache.get(String(accountId));
-    const actualMt5AccountId = mt5Account.accountId;
-    try {
-      if (!accessToken) {
-        const loginPayload = {
-          AccountId: parseInt(actualMt5AccountId, 10),
-          Password: mt5Account.password?.trim() || '',
-          DeviceId: `web_modify_${userId}_${Date.now()}`,
-          DeviceType: 'web',
-        };
-
-        const loginResponse = await fetch(loginUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(loginPayload),
-        });
-
-        if (loginResponse.ok) {
-          const loginData = await loginResponse.json() as any;
-          accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-          if (accessToken) {
-            tokenCache.set(String(accountId), accessToken, 3600);
-          }
-        }
+    // Expiry only changes when a mode is sent
+    let expiry: OrderExpiration | undefined;
+    if (expirationMode !== undefined) {
+      const timezone = expirationMode !== 'gtc' ? (await getTerminalSettings(userId)).timezone : null;
+      const resolved = resolveExpiration({ expirationMode, expiration }, timezone);
+      if (resolved.error) {
+        return sendFieldErrors(res, [resolved.error], resolved.error.message);
       }
-    } catch (err) {
-      console.error('[Orders] MetaAPI login error:', err);
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
+      expiry = resolved.value;
     }
 
-    if (!accessToken) {
+    const client = new MetaApiClient(mt5Account, `modify_${userId}`);
+    const orderIdNum = parseInt(Array.isArray(orderId) ? orderId[0] : orderId, 10);
+
+    // Modify payloads carry no symbol: take it from the request or the open order
+    let bridgeVolume: number | undefined;
+    if (volume !== undefined) {
+      const order = symbol ? null : await client.findOrder(orderIdNum).catch(() => null);
+      const orderSymbol = String(symbol ?? order?.Symbol ?? order?.symbol ?? '');
+      const instrument = orderSymbol ? await findInstrument(orderSymbol, mt5Account.group) : null;
+      bridgeVolume = await toBridgeVolume(Number(volume), 'modify', orderSymbol, instrument?.category);
+    }
+
+    const result = await client.modifyPendingOrder({
+      orderId: orderIdNum,
+      price: price !== undefined ? parseFloat(price) : undefined,
+      volume: bridgeVolume,
+      takeProfit: takeProfit !== undefined ? (takeProfit === null || takeProfit === 0 ? 0 : parseFloat(takeProfit)) : undefined,
+      stopLoss: stopLoss !== undefined ? (stopLoss === null || stopLoss === 0 ? 0 : parseFloat(stopLoss)) : undefined,
+      typeTime: expiry?.typeTime,
+      expiration: expiry?.expiration,
+    });
+
+    return res.json({
+      success: true,
+      data: result.data,
+      ...(expiry && { expiration: { mode: expiry.mode, expiresAt: expiry.expiresAt } }),
+    });
+  } catch (error) {
+    console.error('[Orders] Modify order error:', error);
+    return sendRouteError(res, error, 'Failed to modify pending order');
+  }
+});
+
+/**
+ * POST /api/orders/pending/cancel-all
+ * Cancel all pending orders for an account, optionally filtered by symbol and side
+ */
+router.post('/pending/cancel-all', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { accountId, symbol, side } = req.body;
+
+    if (!userId) {
       return res.status(401).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        message: 'Unauthorized',
       });
     }
 
-    // Modify pending order via MetaAPI
-    const modifyPayload: any = {
-      OrderId: parseInt(Array.isArray(orderId) ? orderId[0] : orderId, 10),
-    };
-
-    if (price !== undefined) {
-      modifyPayload.Price = parseFloat(price);
-    }
-    if (volume !== undefined) {
-      // The MetaAPI C# backend expects exact lots for Forex/Metals, but 100x for Crypto
-      // If symbol is missing from modify payload, we can't reliably adjust volume here easily without fetching order first,
-      // but usually modify doesn't change volume, or passes it correctly. Assuming 1 isn't safe if it's crypto.
-      // modify endpoint likely doesn't support changing volume anyway, but if it does:
-      modifyPayload.Volume = Number(volume); // Let's pass it exactly as lots as fallback
+    if (!accountId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required field: accountId',
+      });
     }
-    if (takeProfit !== undefined) {
-      modifyPayload.TakeProfit = takeProfit === null || takeProfit === 0 ? 0 : parseFloat(takeProfit);
+
+    if (side !== undefined && side !== 'buy' && side !== 'sell') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid side. Must be "buy" or "sell"',
+      });
     }
-    if (stopLoss !== undefined) {
-      modifyPayload.StopLoss = stopLoss === null || stopLoss === 0 ? 0 : parseFloat(stopLoss);
+
+    // Get MT5 account from database
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [
+          { id: String(accountId) },
+          { accountId: String(accountId) }
+        ],
+        archived: false,
+      },
+    });
+
+    if (!mt5Account) {
+      return res.status(404).json({
+        success: false,
+        message: 'MT5 account not found',
+      });
     }
 
-    const modifyUrl = `${LIVE_API_URL.replace(/\/$/, '')}/client/Orders/ModifyPendingOrder`;
+    const client = new MetaApiClient(mt5Account, `cancelall_${userId}`);
+    const symbolFilter = symbol ? String(symbol).replace('/', '').toUpperCase() : null;
+    const orders = (await client.getOrders()).filter((order: any) => {
+      if (symbolFilter && String(order.Symbol ?? order.symbol ?? '').toUpperCase() !== symbolFilter) return false;
+      if (side && extractSide(order) !== side) return false;
+      return true;
+    });
 
-    try {
-      const modifyResponse = await fetch(modifyUrl, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(modifyPayload),
+    if (orders.length === 0) {
+      return res.json({
+        success: true,
+        data: { closed: 0, failed: 0, total: 0, results: [] },
+        message: 'No pending orders to cancel',
       });
+    }
 
-      const modifyData = await modifyResponse.json();
+    const results = await mapWithConcurrency(orders, BULK_TRADE_CONCURRENCY, async (order: any) => {
+      const orderId = extractOrderId(order);
+      if (!orderId) return { orderId: null, success: false, error: 'No order ID' };
 
-      if (!modifyResponse.ok) {
-        return res.status(modifyResponse.status).json({
-          success: false,
-          message: (modifyData as any)?.message || (modifyData as any)?.Message || 'Failed to modify pending order',
-          error: modifyData,
-        });
+      try {
+        await client.cancelPendingOrder(orderId);
+        return { orderId, success: true };
+      } catch (err) {
+        return { orderId, success: false, error: err instanceof Error ? err.message : 'Unknown error' };
       }
+    });
 
-      return res.json({
-        success: true,
-        data: modifyData,
+    // Same response shape as POST /api/positions/close-all
+    const closed = results.filter(r => r.success).length;
+    const failed = results.length - closed;
+
+    return res.json({
+      success: true,
+      data: { closed, failed, total: orders.length, results },
+      message: `Cancelled ${closed} order${closed !== 1 ? 's' : ''}${failed > 0 ? ` (${failed} failed)` : ''}`,
+    });
+  } catch (error) {
+    console.error('[Orders] Cancel all error:', error);
+    return sendRouteError(res, error, 'Failed to cancel pending orders');
+  }
+});
+
+/**
+ * DELETE /api/orders/pending/:orderId
+ * Cancel a pending order (accountId in the body or query)
+ */
+router.delete('/pending/:orderId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const orderIdNum = Number(req.params.orderId);
+    const accountId = req.body?.accountId ?? req.query.accountId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
       });
-    } catch (err) {
-      console.error('[Orders] Modify order error:', err);
-      return res.status(500).json({
+    }
+
+    if (!accountId) {
+      return res.status(400).json({
         success: false,
-        message: 'Failed to modify pending order',
-        error: err instanceof Error ? err.message : 'Unknown error',
+        message: 'Missing required field: accountId',
       });
     }
-  } catch (error) {
-    console.error('[Orders] Modify order error:', error);
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+
+    if (!Number.isFinite(orderIdNum) || orderIdNum <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid orderId',
+      });
+    }
+
+    // Get MT5 account from database
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [
+          { id: String(accountId) },
+          { accountId: String(accountId) }
+        ],
+        archived: false,
+      },
     });
+
+    if (!mt5Account) {
+      return res.status(404).json({
+        success: false,
+        message: 'MT5 account not found',
+      });
+    }
+
+    const client = new MetaApiClient(mt5Account, `cancel_${userId}`);
+    const result = await client.cancelPendingOrder(orderIdNum);
+
+    return res.json({
+      success: true,
+      data: result.data,
+      message: result.requestPlaced ? 'Cancel request placed' : 'Pending order cancelled',
+    });
+  } catch (error) {
+    console.error('[Orders] Cancel order error:', error);
+    return sendRouteError(res, error, 'Failed to cancel pending order');
   }
 });
 
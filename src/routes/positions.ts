@@ -1,13 +1,91 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { prisma } from '../lib/db.js';
 import { authenticateToken } from '../middleware/auth.js';
-import { tokenCache } from '../lib/tokenCache.js';
+import { sendKillSwitchActive } from '../middleware/killSwitch.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { sendRouteError } from '../middleware/errorHandler.js';
+import { extractPositionId, extractProtection, extractSide, MetaApiClient, MetaApiError } from '../lib/metaapi.js';
+import { notify } from '../lib/notifications.js';
+import { findInstrument } from '../lib/instruments.js';
+import { toBridgeVolume, withVolumeLots } from '../lib/volumeScale.js';
+import { parseBody, sendFieldErrors } from '../lib/validation.js';
+import { validateCloseVolume } from '../lib/tradeValidation.js';
+import { BULK_TRADE_CONCURRENCY, mapWithConcurrency } from '../lib/concurrency.js';
+import {
+  closedTradeQuerySchema,
+  DEFAULT_PAGE_SIZE,
+  fetchClosedTrades,
+  paginateClosedTrades,
+  sortClosedTrades,
+} from '../lib/tradeHistory.js';
+import { buildStatement, statementQuerySchema } from '../lib/statement.js';
+import { renderStatement } from '../lib/statementExport.js';
+import { invalidateAnalytics } from '../lib/analyticsCache.js';
+import { getActiveKillSwitch, isProtectiveStopLossChange } from '../lib/killSwitch.js';
+import { trailingStopWorker } from '../workers/trailingStopWorker.js';
 
 const router = Router();
 
+const closeAllFiltersSchema = z.object({
+  symbol: z.string().trim().min(1).optional(),
+  side: z.enum(['buy', 'sell']).optional(),
+  profit: z.enum(['profitable', 'losing']).optional(),
+  magic: z.coerce.number().int().optional(),
+  comment: z.string().trim().min(1).optional(),
+});
+
+type CloseAllFilters = z.infer<typeof closeAllFiltersSchema>;
+
+/**
+ * Whether an open position matches the close-all filters.
+ * comment matches case-insensitively on a substring.
+ */
+function matchesCloseAllFilters(position: any, filters: CloseAllFilters): boolean {
+  if (filters.symbol) {
+    const symbol = String(position.Symbol ?? position.symbol ?? '').toUpperCase();
+    if (symbol !== filters.symbol.replace('/', '').toUpperCase()) return false;
+  }
+  if (filters.side && extractSide(position) !== filters.side) return false;
+  if (filters.profit) {
+    const profit = Number(position.Profit ?? position.profit ?? 0);
+    if (filters.profit === 'profitable' ? profit <= 0 : profit >= 0) return false;
+  }
+  if (filters.magic !== undefined && Number(position.Magic ?? position.magic) !== filters.magic) return false;
+  if (filters.comment) {
+    const comment = String(position.Comment ?? position.comment ?? '').toLowerCase();
+    if (!comment.includes(filters.comment.toLowerCase())) return false;
+  }
+  return true;
+}
+
+const trailingStopSchema = z.object({
+  accountId: z.union([z.string().trim().min(1), z.number()]).transform(String),
+  distance: z.coerce.number().positive('distance must be a positive number of points'),
+  step: z.coerce.number().positive('step must be a positive number of points'),
+});
+
+/**
+ * Apply trailing stop changes to the running worker
+ */
+function reloadTrailingStops(): void {
+  trailingStopWorker.reload().catch((error) => {
+    console.error('[Positions] Trailing stop reload failed:', error);
+  });
+}
+
+/**
+ * Open volume of a position row in lots
+ */
+async function getPositionLots(position: any): Promise<number> {
+  const [row] = await withVolumeLots([position], 'market');
+  return Number(row.VolumeLots ?? row.volumeLots ?? 0);
+}
+
 /**
  * POST /api/positions/close-all
  * Close all positions for an account
+ * Optional filters: symbol, side (buy|sell), profit (profitable|losing), magic, comment
  * NOTE: This route must come BEFORE /:accountId to avoid route conflicts
  */
 router.post('/close-all', authenticateToken, async (req: Request, res: Response) => {
@@ -48,166 +126,69 @@ router.post('/close-all', authenticateToken, async (req: Request, res: Response)
       });
     }
 
-    // Authenticate with MetaAPI to get access token
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
+    const filters = parseBody(closeAllFiltersSchema, req.body, res);
+    if (!filters) return;
 
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
+    // First, get the open positions that match the filters
+    const client = new MetaApiClient(mt5Account, `closeall_${userId}`);
+    const positions = (await client.getPositions()).filter((pos: any) => matchesCloseAllFilters(pos, filters));
 
-    let accessToken: string | null = tokenCache.get(String(accountId));
-    try {
-      if (!accessToken) {
-        if (!mt5Account.password) {
-          return res.status(400).json({
-            success: false,
-            message: 'MT5 account password not found',
-          });
-        }
-
-        const loginPayload = {
-          AccountId: parseInt(accountId, 10),
-          Password: mt5Account.password.trim(),
-          DeviceId: `web_closeall_${userId}_${Date.now()}`,
-          DeviceType: 'web',
-        };
-
-        const loginResponse = await fetch(loginUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(loginPayload),
-        });
-
-        if (loginResponse.ok) {
-          const loginData = await loginResponse.json() as any;
-          accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-          if (accessToken) {
-            tokenCache.set(String(accountId), accessToken, 3600);
-          }
-        }
-      }
-    } catch (err) {
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
-    }
-
-    if (!accessToken) {
-      return res.status(401).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
+    if (positions.length === 0) {
+      return res.json({
+        success: true,
+        data: { closed: 0, failed: 0, total: 0, results: [] },
+        message: 'No positions to close',
       });
     }
 
-    // Close all positions via MetaAPI
-    // First, get all open positions
-    const API_BASE = LIVE_API_URL.endsWith('/api') ? LIVE_API_URL : `${LIVE_API_URL.replace(/\/$/, '')}/api`;
-    const positionsUrl = `${API_BASE}/client/Positions`;
-
-    try {
-      // Get all positions
-      const positionsResponse = await fetch(positionsUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'AccountId': String(accountId),
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!positionsResponse.ok) {
-        return res.status(positionsResponse.status).json({
-          success: false,
-          message: 'Failed to fetch positions',
-        });
-      }
-
-      const positionsData = await positionsResponse.json() as any;
-      const positions = positionsData?.positions || positionsData?.data || positionsData || [];
+    // Close each position, a few at a time so the bridge is not flooded
+    const results = await mapWithConcurrency(positions, BULK_TRADE_CONCURRENCY, async (pos: any) => {
+      const positionId = extractPositionId(pos) || null;
+      const symbol = pos.Symbol ?? pos.symbol ?? null;
+      if (!positionId) return { positionId: null, symbol, success: false, error: 'No position ID' };
 
-      if (!Array.isArray(positions) || positions.length === 0) {
-        return res.json({
-          success: true,
-          data: { closed: 0, failed: 0 },
-          message: 'No positions to close',
-        });
+      try {
+        await client.closePosition(positionId);
+        return { positionId, symbol, success: true };
+      } catch (err) {
+        return { positionId, symbol, success: false, error: err instanceof Error ? err.message : 'Unknown error' };
       }
+    });
 
-      // Close each position
-      const closeResults = await Promise.allSettled(
-        positions.map(async (pos: any) => {
-          const positionId = pos.PositionId || pos.positionId || pos.Id || pos.id;
-          if (!positionId) return { success: false, positionId: null, error: 'No position ID' };
-
-          const closeUrl = `${API_BASE}/client/position/${positionId}`;
-          try {
-            const closeResponse = await fetch(closeUrl, {
-              method: 'DELETE',
-              headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'AccountId': String(accountId),
-                'Accept': 'application/json',
-              },
-            });
-
-            if (closeResponse.ok || closeResponse.status === 204) {
-              return { success: true, positionId };
-            } else {
-              // Try fallback POST method
-              const fallbackUrl = `${API_BASE}/client/position/close`;
-              const fallbackResponse = await fetch(fallbackUrl, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${accessToken}`,
-                  'AccountId': String(accountId),
-                },
-                body: JSON.stringify({ positionId }),
-              });
-
-              if (fallbackResponse.ok || fallbackResponse.status === 204) {
-                return { success: true, positionId };
-              }
-
-              const errorText = await fallbackResponse.text().catch(() => '');
-              return { success: false, positionId, error: errorText || 'Failed to close' };
-            }
-          } catch (err) {
-            return { success: false, positionId, error: err instanceof Error ? err.message : 'Unknown error' };
-          }
-        })
-      );
-
-      const closed = closeResults.filter(r => r.status === 'fulfilled' && r.value.success).length;
-      const failed = closeResults.length - closed;
-
-      return res.json({
-        success: true,
-        data: { closed, failed, total: positions.length },
-        message: `Closed ${closed} position${closed !== 1 ? 's' : ''}${failed > 0 ? ` (${failed} failed)` : ''}`,
+    const closed = results.filter(r => r.success).length;
+    const failed = results.length - closed;
+    if (closed > 0) invalidateAnalytics(mt5Account.accountId);
+
+    if (failed > 0) {
+      notify({
+        userId,
+        type: 'close_all_failed',
+        title: 'Close all incomplete',
+        message: `${failed} of ${positions.length} position${positions.length !== 1 ? 's' : ''} could not be closed`,
+        metadata: {
+          accountId: mt5Account.accountId,
+          closed,
+          failed,
+          failures: results.filter(r => !r.success).map(r => ({ positionId: r.positionId, error: r.error })),
+        },
       });
-    } catch (err) {
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to close all positions',
-        error: err instanceof Error ? err.message : 'Unknown error',
+    } else if (closed > 0) {
+      notify({
+        userId,
+        type: 'position_closed',
+        title: 'Positions closed',
+        message: `Closed ${closed} position${closed !== 1 ? 's' : ''}`,
+        metadata: { accountId: mt5Account.accountId, closed },
       });
     }
-  } catch (error) {
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+
+    return res.json({
+      success: true,
+      data: { closed, failed, total: positions.length, results },
+      message: `Closed ${closed} position${closed !== 1 ? 's' : ''}${failed > 0 ? ` (${failed} failed)` : ''}`,
     });
+  } catch (error) {
+    return sendRouteError(res, error, 'Failed to close all positions');
   }
 });
 
@@ -216,7 +197,7 @@ router.post('/close-all', authenticateToken, async (req: Request, res: Response)
  * Close a single position
  * NOTE: This route must come BEFORE /:accountId to avoid route conflicts
  */
-router.post('/:positionId/close', authenticateToken, async (req: Request, res: Response) => {
+router.post('/:positionId/close', authenticateToken, idempotency, async (req: Request, res: Response) => {
   try {
     const userId = req.user?.userId;
     const { positionId } = req.params;
@@ -263,200 +244,208 @@ router.post('/:positionId/close', authenticateToken, async (req: Request, res: R
       });
     }
 
-    // Authenticate with MetaAPI to get access token
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
+    const hasVolume = volume !== undefined && volume !== null && volume !== '';
+    const client = new MetaApiClient(mt5Account, `close_${userId}`);
 
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
+    // Partial closes are checked against the open position and converted
+    // to bridge units with its symbol
+    let bridgeVolume: number | undefined;
+    let openVolume: number | null = null;
+    if (hasVolume) {
+      const position = await client.findPosition(positionIdNum);
+      if (!position) {
+        return res.status(404).json({
+          success: false,
+          Success: false,
+          message: 'Position not found',
+        });
+      }
 
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
+      const positionSymbol = String(position.Symbol ?? position.symbol ?? symbol ?? '');
+      const instrument = positionSymbol ? await findInstrument(positionSymbol, mt5Account.group) : null;
+      openVolume = await getPositionLots(position);
 
-    if (!mt5Account.password) {
-      return res.status(400).json({
-        success: false,
-        message: 'MT5 account password not found',
-      });
+      const volumeError = validateCloseVolume(Number(volume), openVolume, instrument);
+      if (volumeError) {
+        return sendFieldErrors(res, [volumeError], volumeError.message);
+      }
+      bridgeVolume = await toBridgeVolume(Number(volume), 'close', positionSymbol, instrument?.category);
     }
 
-    let accessToken: string | null = tokenCache.get(String(accountId));
-    const actualMt5AccountId = mt5Account.accountId;
-    try {
-      if (!accessToken) {
-        const loginPayload = {
-          AccountId: parseInt(actualMt5AccountId, 10),
-          Password: mt5Account.password.trim(),
-          DeviceId: `web_close_${userId}_${Date.now()}`,
-          DeviceType: 'web',
-        };
+    const result = await client.closePosition(positionIdNum, bridgeVolume);
+    invalidateAnalytics(mt5Account.accountId);
 
-        const loginResponse = await fetch(loginUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(loginPayload),
-        });
+    // Report what is left of a partially closed position. The bridge may not
+    // have applied the close yet, so fall back to the expected remainder.
+    let remaining: { volume: number; position: any } | undefined;
+    if (openVolume !== null) {
+      const expected = Number((openVolume - Number(volume)).toFixed(4));
+      const after = expected > 0 ? await client.findPosition(positionIdNum).catch(() => null) : null;
+      remaining = {
+        volume: after && !result.requestPlaced ? await getPositionLots(after) : expected,
+        position: after,
+      };
+    }
 
-        if (loginResponse.ok) {
-          const loginData = await loginResponse.json() as any;
-          accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-          if (accessToken) {
-            tokenCache.set(String(accountId), accessToken, 3600);
-          }
-        }
-      }
-    } catch (err) {
-      return res.status(500).json({
+    notify({
+      userId,
+      type: 'position_closed',
+      title: hasVolume ? 'Position partially closed' : 'Position closed',
+      message: result.requestPlaced
+        ? `Close request for position #${positionIdNum} placed`
+        : `Position #${positionIdNum} closed${hasVolume ? ` (${Number(volume)} lots)` : ''}`,
+      metadata: {
+        accountId: mt5Account.accountId,
+        positionId: positionIdNum,
+        volume: hasVolume ? Number(volume) : null,
+      },
+    });
+
+    return res.status(result.status).json({
+      success: true,
+      Success: true, // Include both formats for compatibility
+      data: result.data,
+      ...(remaining && { remaining }),
+      message: result.requestPlaced ? 'Close request placed' : 'Position closed successfully'
+    });
+  } catch (error) {
+    if (error instanceof MetaApiError) {
+      return res.status(error.statusCode).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        Success: false, // Include both formats for compatibility
+        message: error.message,
+        error: error.data,
       });
     }
+    return sendRouteError(res, error, 'Internal server error');
+  }
+});
+
+/**
+ * POST /api/positions/:positionId/close-by
+ * Close a position by an opposite position on the same symbol (hedging accounts)
+ * NOTE: This route must come BEFORE /:accountId to avoid route conflicts
+ */
+router.post('/:positionId/close-by', authenticateToken, idempotency, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const positionIdNum = Number(req.params.positionId);
+    const { accountId, oppositePositionId } = req.body;
+    const oppositeIdNum = Number(oppositePositionId);
 
-    if (!accessToken) {
+    if (!userId) {
       return res.status(401).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        message: 'Unauthorized',
       });
     }
 
-    // Close position via MetaAPI
-    // Helper to fetch with timeout and parse (matching zuperior-terminal)
-    const doFetch = async (u: string, init: RequestInit, timeoutMs = 10000): Promise<{ res: globalThis.Response; json: any }> => {
-      const ctrl = new AbortController();
-      const t = setTimeout(() => ctrl.abort(), timeoutMs);
-      let fetchRes: globalThis.Response;
-      let text = '';
-      try {
-        fetchRes = await fetch(u, { ...init, signal: ctrl.signal });
-        text = await fetchRes.text().catch(() => '');
-      } finally {
-        clearTimeout(t);
-      }
-      let json: any = null;
-      try {
-        json = text ? JSON.parse(text) : null;
-      } catch {
-        json = text;
-      }
-      return { res: fetchRes, json };
-    };
+    if (!accountId || !oppositePositionId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: accountId, oppositePositionId',
+      });
+    }
 
-    const API_BASE = LIVE_API_URL.endsWith('/api') ? LIVE_API_URL : `${LIVE_API_URL.replace(/\/$/, '')}/api`;
-    const hasVolume = volume && Number(volume) > 0;
-    const q = new URLSearchParams();
-    if (hasVolume) q.set('volume', String(volume));
+    if (!Number.isFinite(positionIdNum) || positionIdNum <= 0 || !Number.isFinite(oppositeIdNum) || oppositeIdNum <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid positionId',
+      });
+    }
 
-    const primaryUrl = `${API_BASE}/client/position/${positionIdNum}${q.toString() ? `?${q.toString()}` : ''}`;
-    const baseHeaders: Record<string, string> = {
-      'Authorization': `Bearer ${accessToken}`,
-      ...(accountId ? { 'AccountId': String(accountId) } : {}),
-      'Accept': 'application/json',
-    };
+    if (positionIdNum === oppositeIdNum) {
+      return sendFieldErrors(res, [{ field: 'oppositePositionId', message: 'A position cannot be closed by itself' }], 'A position cannot be closed by itself');
+    }
 
-    // Try primary method first: DELETE /client/position/{positionId}
-    const primary = await doFetch(primaryUrl, { method: 'DELETE', headers: baseHeaders }, 10000);
+    // Get MT5 account from database
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [
+          { id: String(accountId) },
+          { accountId: String(accountId) }
+        ],
+        archived: false,
+      },
+    });
 
-    // If primary succeeds, return immediately
-    if (primary.res.ok || primary.res.status === 204) {
-      return res.status(primary.res.status).json({
-        success: true,
-        data: primary.json,
-        message: 'Position closed successfully'
-      });
-    }
-
-    // Fallback 1: POST /client/position/close with JSON payload (camelCase)
-    const shouldFallback1 = !primary.res.ok && (primary.res.status === 415 || primary.res.status === 405 || primary.res.status >= 400);
-    let fallback1: { res: globalThis.Response; json: any } | null = null;
-    if (shouldFallback1) {
-      const payload: any = { positionId: Number(positionIdNum) };
-      if (hasVolume) payload.volume = Number(volume);
-      const f1Url = `${API_BASE}/client/position/close`;
-      fallback1 = await doFetch(f1Url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...baseHeaders },
-        body: JSON.stringify(payload),
-      }, 10000);
-
-      // If fallback1 succeeds, return immediately
-      if (fallback1.res.ok || fallback1.res.status === 204) {
-        return res.status(fallback1.res.status).json({
-          success: true,
-          data: fallback1.json,
-          message: 'Position closed successfully'
-        });
-      }
+    if (!mt5Account) {
+      return res.status(404).json({
+        success: false,
+        message: 'MT5 account not found',
+      });
     }
 
-    // Fallback 2: POST /Trading/position/close with PascalCase payload (try if both failed)
-    const shouldFallback2 = !primary.res.ok && (!fallback1 || !fallback1.res.ok);
-    let fallback2: { res: globalThis.Response; json: any } | null = null;
-    if (shouldFallback2) {
-      const payload: any = {
-        Login: parseInt(String(accountId), 10),
-        PositionId: Number(positionIdNum)
-      };
-      if (hasVolume) payload.Volume = Number(volume);
-      const f2Url = `${API_BASE}/Trading/position/close`;
-      fallback2 = await doFetch(f2Url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...baseHeaders },
-        body: JSON.stringify(payload),
-      }, 10000);
-    }
-
-    const final = fallback2 ?? fallback1 ?? primary;
-
-    // Check for success - handle both HTTP status and response body (matching zuperior-terminal)
-    const returnCode = final.json?.returnCode || final.json?.ReturnCode;
-    const isRequestPlaced = returnCode === 10012;
-    const isSuccess = final.res.ok || final.res.status === 204 || final.res.status === 200 || isRequestPlaced;
-    const responseSuccess = final.json?.success || final.json?.Success || final.json?.success === true || final.json?.Success === true;
-
-    // If HTTP is OK but response says failure, treat as failure (unless 10012)
-    if (isSuccess && (responseSuccess !== false || isRequestPlaced)) {
-      // Success - return immediately
-      return res.status(isRequestPlaced ? 200 : final.res.status).json({
-        success: true,
-        Success: true, // Include both formats for compatibility
-        data: final.json,
-        message: isRequestPlaced ? 'Close request placed' : 'Position closed successfully'
+    const client = new MetaApiClient(mt5Account, `closeby_${userId}`);
+    const [position, opposite] = await Promise.all([
+      client.findPosition(positionIdNum),
+      client.findPosition(oppositeIdNum),
+    ]);
+
+    if (!position || !opposite) {
+      return res.status(404).json({
+        success: false,
+        message: 'Position not found',
       });
     }
 
-    // Extract error message from response
-    let errorMessage = 'Failed to close position';
-    if (final.json) {
-      errorMessage = final.json.message || final.json.Message || final.json.error || final.json.Error || errorMessage;
-      // If error is a string, use it directly
-      if (typeof final.json === 'string') {
-        errorMessage = final.json;
-      }
+    const symbol = String(position.Symbol ?? position.symbol ?? '');
+    if (symbol.toUpperCase() !== String(opposite.Symbol ?? opposite.symbol ?? '').toUpperCase()) {
+      return sendFieldErrors(res, [{ field: 'oppositePositionId', message: 'Positions must be on the same symbol' }], 'Positions must be on the same symbol');
+    }
+    const side = extractSide(position);
+    if (!side || side === extractSide(opposite)) {
+      return sendFieldErrors(res, [{ field: 'oppositePositionId', message: 'Positions must be on opposite sides' }], 'Positions must be on opposite sides');
     }
 
-    return res.status(final.res.status || 500).json({
-      success: false,
-      Success: false, // Include both formats for compatibility
-      message: errorMessage,
-      error: final.json,
+    const result = await client.closePositionBy(positionIdNum, oppositeIdNum);
+    invalidateAnalytics(mt5Account.accountId);
+
+    // The larger position keeps the difference
+    const [positionLots, oppositeLots] = await Promise.all([getPositionLots(position), getPositionLots(opposite)]);
+    const netted = Math.min(positionLots, oppositeLots);
+
+    notify({
+      userId,
+      type: 'position_closed',
+      title: 'Positions closed by opposite',
+      message: result.requestPlaced
+        ? `Close-by request for #${positionIdNum} and #${oppositeIdNum} placed`
+        : `Closed ${netted} lots of ${symbol} by netting #${positionIdNum} against #${oppositeIdNum}`,
+      metadata: {
+        accountId: mt5Account.accountId,
+        positionId: positionIdNum,
+        oppositePositionId: oppositeIdNum,
+        symbol,
+        volume: netted,
+      },
     });
-  } catch (error) {
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+
+    return res.status(result.status).json({
+      success: true,
+      data: result.data,
+      netted: {
+        volume: netted,
+        remaining: positionLots === oppositeLots
+          ? null
+          : {
+            positionId: positionLots > oppositeLots ? positionIdNum : oppositeIdNum,
+            volume: Number(Math.abs(positionLots - oppositeLots).toFixed(4)),
+          },
+      },
+      message: result.requestPlaced ? 'Close-by request placed' : 'Positions closed',
     });
+  } catch (error) {
+    console.error('[Positions] Close-by error:', error);
+    return sendRouteError(res, error, 'Failed to close position by opposite position');
   }
 });
 
 /**
  * PUT /api/positions/:positionId/modify
- * Modify TP/SL for an open position
+ * Modify TP/SL for an open position. While the kill switch is active the
+ * SL may only be added or tightened (TP changes are allowed).
  * NOTE: This route must come BEFORE /:accountId to avoid route conflicts
  */
 router.put('/:positionId/modify', authenticateToken, async (req: Request, res: Response) => {
@@ -506,164 +495,210 @@ router.put('/:positionId/modify', authenticateToken, async (req: Request, res: R
       });
     }
 
-    // Authenticate with MetaAPI
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
+    const client = new MetaApiClient(mt5Account, `modify_${userId}`);
+    const requestedStopLoss = stopLoss !== undefined && stopLoss !== null ? Number(stopLoss) : undefined;
 
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
+    if (requestedStopLoss !== undefined) {
+      const killSwitch = await getActiveKillSwitch(userId, mt5Account.id);
+      if (killSwitch) {
+        const position = await client.findPosition(positionIdNum);
+        if (!position) {
+          return res.status(404).json({
+            success: false,
+            message: 'Position not found',
+          });
+        }
+        const side = extractSide(position);
+        if (!side || !isProtectiveStopLossChange(side, extractProtection(position).stopLoss, requestedStopLoss)) {
+          return sendKillSwitchActive(res, killSwitch, 'The stop-loss can only be added or tightened.');
+        }
+      }
     }
 
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
+    const result = await client.modifyPosition({
+      positionId: positionIdNum,
+      stopLoss: requestedStopLoss,
+      takeProfit: takeProfit !== undefined && takeProfit !== null ? Number(takeProfit) : undefined,
+      comment,
+    });
 
-    let accessToken: string | null = null;
-    const actualMt5AccountId = mt5Account.accountId;
-    try {
-      const loginPayload = {
-        AccountId: parseInt(actualMt5AccountId, 10),
-        Password: mt5Account.password.trim(),
-        DeviceId: `web_modify_${userId}_${Date.now()}`,
-        DeviceType: 'web',
-      };
+    return res.json({
+      success: true,
+      data: result.data,
+      message: result.requestPlaced ? 'Modify request placed' : undefined
+    });
+  } catch (error) {
+    console.error('[Positions] Modify position error:', error);
+    return sendRouteError(res, error, 'Internal server error');
+  }
+});
+
+/**
+ * PUT /api/positions/:positionId/trailing-stop
+ * Attach a trailing stop to an open position, or change its distance/step.
+ * Body: { accountId, distance, step } with distance and step in points.
+ */
+router.put('/:positionId/trailing-stop', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const positionIdNum = Number(req.params.positionId);
 
-      const loginResponse = await fetch(loginUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(loginPayload),
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
       });
+    }
 
-      if (loginResponse.ok) {
-        const loginData = await loginResponse.json() as any;
-        accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-      }
-    } catch (err) {
-      console.error('[Positions] MetaAPI login error:', err);
-      return res.status(500).json({
+    if (!Number.isFinite(positionIdNum) || positionIdNum <= 0) {
+      return res.status(400).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        message: 'Invalid positionId',
       });
     }
 
-    if (!accessToken) {
-      return res.status(401).json({
+    const body = parseBody(trailingStopSchema, req.body, res);
+    if (!body) return;
+
+    // Get MT5 account from database
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [
+          { id: body.accountId },
+          { accountId: body.accountId }
+        ],
+        archived: false,
+      },
+    });
+
+    if (!mt5Account || !mt5Account.password) {
+      return res.status(404).json({
         success: false,
-        message: 'Failed to authenticate with MetaAPI',
+        message: 'MT5 account not found or password not set',
       });
     }
 
-    // Build payload for modifying position
-    const payload: any = {
-      positionId: positionIdNum,
-      comment: comment || 'Modified via web terminal',
-    };
-    if (stopLoss !== undefined && stopLoss !== null && Number(stopLoss) > 0) {
-      payload.stopLoss = Number(stopLoss);
+    const client = new MetaApiClient(mt5Account, `trailing_${userId}`);
+    const position = await client.findPosition(positionIdNum);
+    if (!position) {
+      return res.status(404).json({
+        success: false,
+        message: 'Position not found',
+      });
     }
-    if (takeProfit !== undefined && takeProfit !== null && Number(takeProfit) > 0) {
-      payload.takeProfit = Number(takeProfit);
+
+    const side = extractSide(position);
+    const symbol = String(position.Symbol ?? position.symbol ?? '');
+    if (!side || !symbol) {
+      return res.status(422).json({
+        success: false,
+        message: 'Could not determine the position side or symbol',
+      });
     }
 
-    // Helper to perform a fetch with timeout and parse
-    const doFetch = async (u: string, init: RequestInit, timeoutMs = 35000): Promise<{ res: globalThis.Response; json: any }> => {
-      const ctrl = new AbortController();
-      const t = setTimeout(() => ctrl.abort(), timeoutMs);
-      let fetchRes: globalThis.Response;
-      let text = '';
-      try {
-        fetchRes = await fetch(u, { ...init, signal: ctrl.signal });
-        text = await fetchRes.text().catch(() => '');
-      } finally {
-        clearTimeout(t);
-      }
-      let json: any = null;
-      try {
-        json = text ? JSON.parse(text) : null;
-      } catch {
-        json = text;
-      }
-      return { res: fetchRes, json };
-    };
+    // Trailing starts from the position's current SL so it never loosens it
+    const currentStopLoss = extractProtection(position).stopLoss;
+    const trailingStop = await prisma.trailingStop.upsert({
+      where: {
+        mt5AccountId_positionId: {
+          mt5AccountId: mt5Account.id,
+          positionId: String(positionIdNum),
+        },
+      },
+      update: {
+        distance: body.distance,
+        step: body.step,
+        stopLoss: currentStopLoss,
+        isActive: true,
+      },
+      create: {
+        userId,
+        mt5AccountId: mt5Account.id,
+        positionId: String(positionIdNum),
+        symbol,
+        side,
+        distance: body.distance,
+        step: body.step,
+        stopLoss: currentStopLoss,
+      },
+    });
 
-    const API_BASE = LIVE_API_URL.endsWith('/api') ? LIVE_API_URL : `${LIVE_API_URL.replace(/\/$/, '')}/api`;
+    reloadTrailingStops();
 
-    // Primary attempt: POST /client/position/modify
-    const primaryUrl = `${API_BASE}/client/position/modify`;
-    const primary = await doFetch(primaryUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(payload),
-    }, 35000);
+    return res.json({
+      success: true,
+      data: trailingStop,
+      message: 'Trailing stop set',
+    });
+  } catch (error) {
+    console.error('[Positions] Set trailing stop error:', error);
+    return sendRouteError(res, error, 'Failed to set trailing stop');
+  }
+});
 
-    // If primary succeeds, return immediately
-    const primaryReturnCode = primary.json?.returnCode || primary.json?.ReturnCode;
-    const primaryIsRequestPlaced = primaryReturnCode === 10012;
+/**
+ * DELETE /api/positions/:positionId/trailing-stop
+ * Remove a position's trailing stop. The SL it last set stays on the position.
+ * accountId comes from the body or query.
+ */
+router.delete('/:positionId/trailing-stop', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const positionId = String(req.params.positionId);
+    const accountId = req.body?.accountId ?? req.query.accountId;
 
-    if (primary.res.ok || primaryIsRequestPlaced) {
-      return res.json({
-        success: true,
-        data: primary.json,
-        message: primaryIsRequestPlaced ? 'Modify request placed' : undefined
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
       });
     }
 
-    // Fallback: PUT /Trading/position/modify
-    const tradingPayload: any = {
-      Login: parseInt(String(accountId), 10),
-      PositionId: positionIdNum,
-      Comment: comment || 'Modified via web terminal',
-    };
-    if (stopLoss !== undefined && stopLoss !== null && Number(stopLoss) > 0) {
-      tradingPayload.StopLoss = Number(stopLoss);
-    }
-    if (takeProfit !== undefined && takeProfit !== null && Number(takeProfit) > 0) {
-      tradingPayload.TakeProfit = Number(takeProfit);
+    if (!accountId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required field: accountId',
+      });
     }
 
-    const secondaryUrl = `${API_BASE}/Trading/position/modify`;
-    const secondary = await doFetch(secondaryUrl, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
+    const deleted = await prisma.trailingStop.deleteMany({
+      where: {
+        userId,
+        positionId,
+        mt5Account: {
+          OR: [
+            { id: String(accountId) },
+            { accountId: String(accountId) }
+          ],
+        },
       },
-      body: JSON.stringify(tradingPayload),
-    }, 35000);
-
-    // Choose best response to forward
-    const secondaryReturnCode = secondary.json?.returnCode || secondary.json?.ReturnCode;
-    const secondaryIsRequestPlaced = secondaryReturnCode === 10012;
-    const secondarySuccess = secondary.res.ok || secondaryIsRequestPlaced;
-
-    const forward = secondarySuccess ? secondary : primary;
-    const forwardIsRequestPlaced = (forward === secondary ? secondaryIsRequestPlaced : primaryIsRequestPlaced);
-    const forwardSuccessState = (forward === secondary ? secondarySuccess : (primary.res.ok || primaryIsRequestPlaced));
-
-    return res.status(forwardSuccessState ? 200 : forward.res.status).json({
-      success: forwardSuccessState,
-      data: forward.json,
-      message: forwardIsRequestPlaced ? 'Modify request placed' : undefined
     });
-  } catch (error) {
-    console.error('[Positions] Modify position error:', error);
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+
+    if (deleted.count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Trailing stop not found',
+      });
+    }
+
+    reloadTrailingStops();
+
+    return res.json({
+      success: true,
+      message: 'Trailing stop removed',
     });
+  } catch (error) {
+    console.error('[Positions] Remove trailing stop error:', error);
+    return sendRouteError(res, error, 'Failed to remove trailing stop');
   }
 });
 
 /**
  * GET /api/positions/:accountId
  * Get all positions (open, pending, closed) for an account
+ * Open positions carry `trailingStop` (or null). Closed trades take the
+ * from/to/symbol/side/sort/order filters of /:accountId/closed, unpaginated.
  * NOTE: This route must come AFTER /close-all, /:positionId/close, and /:positionId/modify to avoid route conflicts
  */
 router.get('/:accountId', authenticateToken, async (req: Request, res: Response) => {
@@ -704,194 +739,59 @@ router.get('/:accountId', authenticateToken, async (req: Request, res: Response)
       });
     }
 
-    // Authenticate with MetaAPI to get access token
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
-
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : CLIENT_LOGIN_PATH_clean.startsWith('/')
-        ? `${LIVE_API_URL.replace(/\/$/, '')}${CLIENT_LOGIN_PATH_clean}`
-        : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean}`;
-
-    if (!mt5Account.password) {
-      return res.status(400).json({
-        success: false,
-        message: 'MT5 account password not found',
-      });
-    }
-
-    let accessToken: string | null = tokenCache.get(String(accountId));
-    const actualMt5AccountId = mt5Account.accountId;
-    try {
-      if (!accessToken) {
-        const accountIdStr = Array.isArray(accountId) ? accountId[0] : String(accountId);
-        const loginPayload = {
-          AccountId: parseInt(actualMt5AccountId, 10),
-          Password: mt5Account.password.trim(),
-          DeviceId: `web_positions_${userId}_${Date.now()}`,
-          DeviceType: 'web',
-        };
-
-        const loginResponse = await fetch(loginUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(loginPayload),
-        });
-
-        if (loginResponse.ok) {
-          const loginData = await loginResponse.json() as any;
-          accessToken = loginData?.Token || loginData?.accessToken || loginData?.AccessToken || loginData?.token || null;
-          if (accessToken) {
-            tokenCache.set(String(accountId), accessToken, 3600);
-          }
-        }
-      }
-    } catch (err) {
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
-    }
-
-    if (!accessToken) {
-      return res.status(401).json({
-        success: false,
-        message: 'Failed to authenticate with MetaAPI',
-      });
-    }
-
-    // Fetch positions from MetaAPI
-    const API_BASE = LIVE_API_URL.endsWith('/api') ? LIVE_API_URL : `${LIVE_API_URL.replace(/\/$/, '')}/api`;
-    const baseHeaders: Record<string, string> = {
-      'Authorization': `Bearer ${accessToken}`,
-      'AccountId': String(accountId),
-      'Accept': 'application/json',
+    // Authenticate up front so login failures surface as errors;
+    // individual list failures below fall back to empty arrays
+    const client = new MetaApiClient(mt5Account, `positions_${userId}`);
+    await client.getAccessToken();
+
+    const excludeClosed = req.query.excludeClosed === 'true';
+    const closedQuery = excludeClosed ? null : parseBody(closedTradeQuerySchema, req.query, res);
+    if (!excludeClosed && !closedQuery) return;
+
+    const [positionRows, pendingOrders, closedPositions, trailingStops] = await Promise.all([
+      client.getPositions().then(rows => withVolumeLots(rows, 'market')).catch(() => [] as any[]),
+      client.getOrders().then(rows => withVolumeLots(rows, 'pending')).catch(() => [] as any[]),
+      closedQuery
+        ? fetchClosedTrades(client, closedQuery)
+          .then(trades => sortClosedTrades(trades, closedQuery))
+          .catch(() => [] as any[])
+        : Promise.resolve([] as any[]),
+      prisma.trailingStop.findMany({
+        where: { mt5AccountId: mt5Account.id, isActive: true },
+        select: { distance: true, step: true, stopLoss: true, lastMovedAt: true, positionId: true },
+      }),
+    ]);
+
+    const trailingByPosition = new Map(trailingStops.map(({ positionId, ...stop }) => [positionId, stop]));
+    const openPositions = positionRows.map(position => ({
+      ...position,
+      trailingStop: trailingByPosition.get(String(extractPositionId(position))) ?? null,
+    }));
+
+    const responseData: any = {
+      success: true,
+      positions: openPositions,
+      pendingOrders: pendingOrders,
+      accountId: accountId,
     };
 
-    try {
-      let openPositions: any[] = [];
-      let pendingOrders: any[] = [];
-      let closedPositions: any[] = [];
-
-      const excludeClosed = req.query.excludeClosed === 'true';
-
-      // Fetch open positions
-      try {
-        const positionsUrl = `${API_BASE}/client/Positions`;
-        const positionsResponse = await fetch(positionsUrl, {
-          method: 'GET',
-          headers: baseHeaders,
-        });
-
-        if (positionsResponse.ok) {
-          const positionsData = await positionsResponse.json() as any;
-          openPositions = positionsData?.positions || positionsData?.data || positionsData || [];
-        }
-      } catch (err) {
-        // Continue with empty array
-      }
-
-      // Fetch pending orders
-      try {
-        const ordersUrl = `${API_BASE}/client/Orders`;
-        const ordersResponse = await fetch(ordersUrl, {
-          method: 'GET',
-          headers: baseHeaders,
-        });
-
-        if (ordersResponse.ok) {
-          const ordersData = await ordersResponse.json() as any;
-          pendingOrders = ordersData?.orders || ordersData?.data || ordersData || [];
-        }
-      } catch (err) {
-        // Continue with empty array
-      }
-
-      // Fetch closed positions
-      if (!excludeClosed) {
-        try {
-          // Build query parameters - match zuperior-terminal format
-          const closedParams = new URLSearchParams();
-          closedParams.set('accountId', String(accountId));
-          closedParams.set('AccountId', String(accountId));
-          closedParams.set('fromDate', '1970-01-01');
-          closedParams.set('FromDate', '1970-01-01');
-          closedParams.set('toDate', '2100-01-01');
-          closedParams.set('ToDate', '2100-01-01');
-          closedParams.set('pageSize', '10000');
-          closedParams.set('PageSize', '10000');
-
-          const closedUrl = `${API_BASE}/client/tradehistory/trades?${closedParams.toString()}`;
-
-          const closedResponse = await fetch(closedUrl, {
-            method: 'GET',
-            headers: {
-              'Accept': 'application/json',
-              ...baseHeaders,
-            },
-          });
-
-          if (closedResponse.ok) {
-            const closedData = await closedResponse.json() as any;
-            let allTrades: any[] = [];
-            if (Array.isArray(closedData)) {
-              allTrades = closedData;
-            } else if (closedData && typeof closedData === 'object') {
-              allTrades = closedData.Items || closedData.Data || closedData.data || closedData.trades || [];
-            }
-
-            closedPositions = allTrades.filter((trade: any) => {
-              const orderId = trade.OrderId ?? trade.orderId ?? trade.DealId ?? trade.dealId ?? 0;
-              const symbol = (trade.Symbol || trade.symbol || '').trim();
-              const price = trade.Price ?? trade.price ?? trade.ClosePrice ?? trade.closePrice ?? 0;
-              const volumeLots = trade.VolumeLots ?? trade.volumeLots ?? trade.Volume ?? trade.volume ?? 0;
-              const profitNum = Number(trade.Profit ?? trade.profit ?? 0);
-
-              return Number(orderId) > 0 && symbol.length > 0 && Number(price) > 0 && Number(volumeLots) > 0 && profitNum !== 0;
-            });
-          }
-        } catch (err) {
-          // Continue with empty array
-        }
-      }
-
-      const responseData: any = {
-        success: true,
-        positions: openPositions,
-        pendingOrders: pendingOrders,
-        accountId: accountId,
-      };
-
-      if (!excludeClosed) {
-        responseData.closedPositions = closedPositions;
-      }
-
-      return res.json(responseData);
-    } catch (err) {
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to fetch positions',
-        error: err instanceof Error ? err.message : 'Unknown error',
-      });
+    if (!excludeClosed) {
+      responseData.closedPositions = closedPositions;
     }
+
+    return res.json(responseData);
   } catch (error) {
-    return res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
+    return sendRouteError(res, error, 'Failed to fetch positions');
   }
 });
 
 /**
  * GET /api/positions/:accountId/closed
- * Get only closed positions for an account
+ * Get only closed positions for an account, including break-even trades
+ * Query: from, to (on close time), symbol, side, sort (closeTime|openTime|profit|symbol|volume),
+ * order (asc|desc). All matching trades are returned unless limit (max 500) or
+ * cursor (pagination.nextCursor of the previous page) is given; only then is the
+ * response paged and carries `pagination`.
  */
 router.get('/:accountId/closed', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -902,6 +802,9 @@ router.get('/:accountId/closed', authenticateToken, async (req: Request, res: Re
       return res.status(401).json({ success: false, message: 'Unauthorized' });
     }
 
+    const query = parseBody(closedTradeQuerySchema, req.query, res);
+    if (!query) return;
+
     // Get MT5 account
     const mt5Account = await prisma.mT5Account.findFirst({
       where: {
@@ -915,84 +818,82 @@ router.get('/:accountId/closed', authenticateToken, async (req: Request, res: Re
       return res.status(404).json({ success: false, message: 'MT5 account not found' });
     }
 
-    // Auth with MetaAPI
-    const LIVE_API_URL = process.env.LIVE_API_URL || 'https://metaapi.zuperior.com/api';
-    const CLIENT_LOGIN_PATH = process.env.CLIENT_LOGIN_PATH || '/client/ClientAuth/login';
-    let CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH;
-    if (CLIENT_LOGIN_PATH_clean.startsWith('/api/')) {
-      CLIENT_LOGIN_PATH_clean = CLIENT_LOGIN_PATH_clean.replace(/^\/api/, '');
-    }
-    const loginUrl = CLIENT_LOGIN_PATH_clean.startsWith('http')
-      ? CLIENT_LOGIN_PATH_clean
-      : `${LIVE_API_URL.replace(/\/$/, '')}/${CLIENT_LOGIN_PATH_clean.replace(/^\//, '')}`;
-
-    let accessToken: string | null = tokenCache.get(String(accountId));
-    if (!accessToken) {
-      const loginPayload = {
-        AccountId: parseInt(mt5Account.accountId, 10),
-        Password: mt5Account.password.trim(),
-        DeviceId: `web_closed_${userId}_${Date.now()}`,
-        DeviceType: 'web',
-      };
-      const loginResponse = await fetch(loginUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(loginPayload),
-      });
-      if (loginResponse.ok) {
-        const loginData = await loginResponse.json() as any;
-        accessToken = loginData?.Token || loginData?.accessToken || loginData?.token || null;
-        if (accessToken) tokenCache.set(String(accountId), accessToken, 3600);
-      }
+    const client = new MetaApiClient(mt5Account, `closed_${userId}`);
+    const trades = await fetchClosedTrades(client, query);
+    if (query.limit === undefined && query.cursor === undefined) {
+      return res.json({
+        success: true,
+        closedPositions: sortClosedTrades(trades, query),
+        accountId: accountId,
+      });
     }
 
-    if (!accessToken) {
-      return res.status(401).json({ success: false, message: 'Failed to authenticate with MetaAPI' });
+    const page = paginateClosedTrades(trades, query);
+    if (!page) {
+      return sendFieldErrors(res, [{ field: 'cursor', message: 'Invalid cursor' }], 'Invalid cursor');
     }
 
-    const API_BASE = LIVE_API_URL.endsWith('/api') ? LIVE_API_URL : `${LIVE_API_URL.replace(/\/$/, '')}/api`;
-    const baseHeaders = {
-      'Authorization': `Bearer ${accessToken}`,
-      'AccountId': String(accountId),
-      'Accept': 'application/json',
-    };
+    return res.json({
+      success: true,
+      closedPositions: page.items,
+      pagination: {
+        limit: query.limit ?? DEFAULT_PAGE_SIZE,
+        nextCursor: page.nextCursor,
+        hasMore: page.nextCursor !== null,
+      },
+      accountId: accountId,
+    });
+  } catch (error) {
+    return sendRouteError(res, error, 'Internal server error');
+  }
+});
 
-    const closedParams = new URLSearchParams();
-    closedParams.set('accountId', String(accountId));
-    closedParams.set('AccountId', String(accountId));
-    closedParams.set('fromDate', '1970-01-01');
-    closedParams.set('FromDate', '1970-01-01');
-    closedParams.set('toDate', '2100-01-01');
-    closedParams.set('ToDate', '2100-01-01');
-    closedParams.set('pageSize', '10000');
-    closedParams.set('PageSize', '10000');
+/**
+ * GET /api/positions/:accountId/statement
+ * Account statement for a date range: closed trades, deposits and withdrawals,
+ * opening/closing balance and P/L, commission and swap totals
+ * Query: from (required), to (default now), format (csv|xlsx|pdf, default pdf)
+ */
+router.get('/:accountId/statement', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { accountId } = req.params;
 
-    const closedUrl = `${API_BASE}/client/tradehistory/trades?${closedParams.toString()}`;
-    const closedResponse = await fetch(closedUrl, { method: 'GET', headers: baseHeaders });
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
 
-    let closedPositions: any[] = [];
-    if (closedResponse.ok) {
-      const closedData = await closedResponse.json() as any;
-      let allTrades = Array.isArray(closedData) ? closedData : (closedData.Items || closedData.Data || closedData.data || closedData.trades || []);
+    const query = parseBody(statementQuerySchema, req.query, res);
+    if (!query) return;
 
-      closedPositions = allTrades.filter((trade: any) => {
-        const orderId = trade.OrderId ?? trade.orderId ?? trade.DealId ?? trade.dealId ?? 0;
-        const symbol = (trade.Symbol || trade.symbol || '').trim();
-        const price = trade.Price ?? trade.price ?? trade.ClosePrice ?? trade.closePrice ?? 0;
-        const volumeLots = trade.VolumeLots ?? trade.volumeLots ?? trade.Volume ?? trade.volume ?? 0;
-        const profit = trade.Profit ?? trade.profit ?? 0;
+    // Get MT5 account
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [{ id: String(accountId) }, { accountId: String(accountId) }],
+        archived: false,
+      },
+    });
 
-        return Number(orderId) > 0 && symbol.length > 0 && Number(price) > 0 && Number(volumeLots) > 0 && Number(profit) !== 0;
-      });
+    if (!mt5Account || !mt5Account.password) {
+      return res.status(404).json({ success: false, message: 'MT5 account not found' });
     }
 
-    return res.json({
-      success: true,
-      closedPositions: closedPositions,
-      accountId: accountId,
+    const client = new MetaApiClient(mt5Account, `statement_${userId}`);
+    const statement = await buildStatement({
+      client,
+      mt5Account,
+      from: new Date(query.from),
+      to: query.to ? new Date(query.to) : undefined,
     });
+    const rendered = await renderStatement(statement, query.format);
+
+    res.setHeader('Content-Type', rendered.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+    return res.send(rendered.body);
   } catch (error) {
-    return res.status(500).json({ success: false, message: 'Internal server error' });
+    console.error('[Positions] Statement error:', error);
+    return sendRouteError(res, error, 'Failed to generate statement');
   }
 });
 
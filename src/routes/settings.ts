@@ -0,0 +1,275 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/db.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { parseBody } from '../lib/validation.js';
+import {
+  getTerminalSettings,
+  TERMINAL_SETTINGS_DEFAULTS,
+  terminalSettingsSchema,
+  TerminalSettingsValues,
+} from '../lib/terminalSettings.js';
+import { autoTPSLRuleSchema } from '../lib/autoTpsl.js';
+
+const router = Router();
+
+/**
+ * Save settings for a user (creating the row if needed)
+ */
+function saveSettings(userId: string, values: Partial<TerminalSettingsValues>) {
+  return prisma.terminalSettings.upsert({
+    where: { userId },
+    update: values,
+    create: { userId, ...values },
+  });
+}
+
+/**
+ * GET /api/settings
+ * Get terminal settings for the authenticated user (defaults on first access)
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const settings = await getTerminalSettings(userId);
+
+    return res.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('[Settings] Get error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch terminal settings',
+    });
+  }
+});
+
+/**
+ * PUT /api/settings
+ * Replace all terminal settings
+ */
+router.put('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const body = parseBody(terminalSettingsSchema, req.body, res);
+    if (!body) return;
+
+    const settings = await saveSettings(userId, body);
+
+    return res.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('[Settings] Put error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to save terminal settings',
+    });
+  }
+});
+
+/**
+ * PATCH /api/settings
+ * Update some terminal settings
+ */
+router.patch('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const body = parseBody(terminalSettingsSchema.partial(), req.body, res);
+    if (!body) return;
+
+    const settings = await saveSettings(userId, body);
+
+    return res.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('[Settings] Patch error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update terminal settings',
+    });
+  }
+});
+
+/**
+ * POST /api/settings/reset
+ * Reset terminal settings to defaults
+ */
+router.post('/reset', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const settings = await saveSettings(userId, TERMINAL_SETTINGS_DEFAULTS);
+
+    return res.json({
+      success: true,
+      data: settings,
+      message: 'Terminal settings reset to defaults',
+    });
+  } catch (error) {
+    console.error('[Settings] Reset error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to reset terminal settings',
+    });
+  }
+});
+
+/**
+ * GET /api/settings/auto-tpsl
+ * List default SL/TP rules used when autoTPSL is on
+ */
+router.get('/auto-tpsl', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const rules = await prisma.autoTPSLRule.findMany({
+      where: { userId },
+      orderBy: [{ scopeType: 'desc' }, { scopeValue: 'asc' }],
+    });
+
+    return res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    console.error('[Settings] Auto TP/SL list error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch auto TP/SL rules',
+    });
+  }
+});
+
+/**
+ * PUT /api/settings/auto-tpsl
+ * Create or replace the rule for a symbol or category
+ */
+router.put('/auto-tpsl', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const body = parseBody(autoTPSLRuleSchema, req.body, res);
+    if (!body) return;
+
+    // Symbols are stored the way orders send them
+    const scopeValue = body.scopeType === 'symbol'
+      ? body.scopeValue.replace('/', '').toUpperCase()
+      : body.scopeValue;
+    const values = {
+      mode: body.mode,
+      stopLoss: body.stopLoss ?? null,
+      takeProfit: body.takeProfit ?? null,
+    };
+
+    const rule = await prisma.autoTPSLRule.upsert({
+      where: {
+        userId_scopeType_scopeValue: { userId, scopeType: body.scopeType, scopeValue },
+      },
+      update: values,
+      create: { userId, scopeType: body.scopeType, scopeValue, ...values },
+    });
+
+    return res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    console.error('[Settings] Auto TP/SL save error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to save auto TP/SL rule',
+    });
+  }
+});
+
+/**
+ * DELETE /api/settings/auto-tpsl/:ruleId
+ * Delete an auto TP/SL rule
+ */
+router.delete('/auto-tpsl/:ruleId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const ruleId = String(req.params.ruleId);
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { count } = await prisma.autoTPSLRule.deleteMany({
+      where: { id: ruleId, userId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Rule not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Auto TP/SL rule deleted',
+    });
+  } catch (error) {
+    console.error('[Settings] Auto TP/SL delete error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete auto TP/SL rule',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,124 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/db.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { sendRouteError } from '../middleware/errorHandler.js';
+import { MetaApiClient } from '../lib/metaapi.js';
+import { parseBody, sendFieldErrors } from '../lib/validation.js';
+import { findInstrument, roundPrice } from '../lib/instruments.js';
+import { extractAccountFigures } from '../lib/accountSnapshots.js';
+import { parseLeverage } from '../lib/tradeValidation.js';
+import {
+  computePositionSize,
+  estimateMarginInAccountCurrency,
+  getPipSize,
+  getProfitCurrency,
+  positionSizeSchema,
+  resolvePipValue,
+} from '../lib/positionSize.js';
+
+const router = Router();
+
+/**
+ * POST /api/tools/position-size
+ * Lot size that risks riskAmount (account currency) or riskPercent of the
+ * balance between entry and stopLoss, with the margin it needs and pip value
+ */
+router.post('/position-size', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const body = parseBody(positionSizeSchema, req.body, res);
+    if (!body) return;
+
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: {
+        userId: userId,
+        OR: [
+          { id: body.accountId },
+          { accountId: body.accountId }
+        ],
+        archived: false,
+      },
+    });
+
+    if (!mt5Account) {
+      return res.status(404).json({
+        success: false,
+        message: 'MT5 account not found',
+      });
+    }
+
+    const instrument = await findInstrument(body.symbol, mt5Account.group);
+    if (!instrument) {
+      return res.status(404).json({
+        success: false,
+        message: `Instrument not found: ${body.symbol}`,
+      });
+    }
+
+    // Live balance and leverage, falling back to the last synced figures
+    const client = new MetaApiClient(mt5Account, `tools_${userId}`);
+    const balanceData = await client.getBalance().catch(() => null);
+    const balance = extractAccountFigures(balanceData)?.balance ?? mt5Account.balance ?? 0;
+    const leverage = parseLeverage(balanceData?.Leverage ?? balanceData?.leverage, mt5Account.leverage);
+    const accountCurrency = String(balanceData?.Currency ?? balanceData?.currency ?? mt5Account.currency ?? 'USD').toUpperCase();
+
+    const riskMoney = body.riskAmount ?? balance * (body.riskPercent ?? 0) / 100;
+    if (riskMoney <= 0) {
+      return sendFieldErrors(res, [{ field: 'riskPercent', message: 'Account balance is not available' }], 'Account balance is not available');
+    }
+
+    const pip = await resolvePipValue(instrument, accountCurrency);
+    if (!pip) {
+      return res.status(503).json({
+        success: false,
+        message: `No quote available to convert the pip value of ${instrument.symbol} to ${accountCurrency}`,
+      });
+    }
+
+    const size = computePositionSize({
+      instrument,
+      entry: body.entry,
+      stopLoss: body.stopLoss,
+      riskMoney,
+      pipValue: pip.value,
+    });
+
+    const marginRequired = size.volume > 0
+      ? await estimateMarginInAccountCurrency({ instrument, volume: size.volume, price: body.entry, leverage, accountCurrency })
+      : 0;
+
+    return res.json({
+      success: true,
+      data: {
+        symbol: instrument.symbol,
+        side: body.entry > body.stopLoss ? 'buy' : 'sell',
+        entry: roundPrice(body.entry, instrument.digits),
+        stopLoss: roundPrice(body.stopLoss, instrument.digits),
+        ...size,
+        riskAmount: Number(riskMoney.toFixed(2)),
+        riskPercent: balance > 0 ? Number((size.actualRisk / balance * 100).toFixed(2)) : null,
+        balance,
+        accountCurrency,
+        profitCurrency: getProfitCurrency(instrument),
+        pipSize: getPipSize(instrument),
+        pipValue: Number(pip.value.toFixed(4)),
+        pipValueSource: pip.source,
+        conversionRate: pip.conversionRate,
+        marginRequired: marginRequired === null ? null : Number(marginRequired.toFixed(2)),
+        leverage,
+      },
+    });
+  } catch (error) {
+    return sendRouteError(res, error, 'Failed to calculate position size');
+  }
+});
+
+export default router;
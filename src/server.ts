@@ -4,11 +4,23 @@ import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import { validateEnv, env } from './lib/env.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { getMarketFeed } from './lib/marketFeed.js';
+import { attachStreamGateway } from './lib/streamGateway.js';
 import authRoutes from './routes/auth.js';
 import accountRoutes from './routes/accounts.js';
 import instrumentRoutes from './routes/instruments.js';
 import positionRoutes from './routes/positions.js';
 import orderRoutes from './routes/orders.js';
+import alertRoutes from './routes/alerts.js';
+import settingsRoutes from './routes/settings.js';
+import notificationRoutes from './routes/notifications.js';
+import toolRoutes from './routes/tools.js';
+import { priceAlertEvaluator } from './workers/priceAlertEvaluator.js';
+import { trailingStopWorker } from './workers/trailingStopWorker.js';
+import { orderLinkWorker } from './workers/orderLinkWorker.js';
+import { analyticsInvalidator } from './workers/analyticsInvalidator.js';
+import { accountSyncWorker } from './workers/accountSyncWorker.js';
+import { marginMonitor } from './workers/marginMonitor.js';
 
 // Validate environment variables (with error handling)
 try {
@@ -53,8 +65,8 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin'],
-  exposedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin', 'Idempotency-Key'],
+  exposedHeaders: ['Content-Type', 'Authorization', 'Idempotent-Replayed'],
   preflightContinue: false,
   optionsSuccessStatus: 204,
 }));
@@ -74,6 +86,10 @@ app.use('/api/accounts', accountRoutes);
 app.use('/api/instruments', instrumentRoutes);
 app.use('/api/positions', positionRoutes);
 app.use('/api/orders', orderRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/settings', settingsRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/tools', toolRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -89,6 +105,26 @@ const server = app.listen(PORT, () => {
   // console.log(`🌐 Allowed CORS origins: ${allowedOrigins.join(', ')}`);
 });
 
+// Real-time quotes and account updates over WebSocket (/ws)
+attachStreamGateway(server);
+getMarketFeed().start().catch((error) => {
+  console.error('❌ Market feed failed to start:', error);
+});
+
+// Background workers
+priceAlertEvaluator.start().catch((error) => {
+  console.error('❌ Price alert evaluator failed to start:', error);
+});
+trailingStopWorker.start().catch((error) => {
+  console.error('❌ Trailing stop worker failed to start:', error);
+});
+orderLinkWorker.start().catch((error) => {
+  console.error('❌ Order link worker failed to start:', error);
+});
+analyticsInvalidator.start();
+accountSyncWorker.start();
+marginMonitor.start();
+
 server.on('error', (error: any) => {
   if (error.code === 'EADDRINUSE') {
     console.error(`❌ Port ${PORT} is already in use.`);
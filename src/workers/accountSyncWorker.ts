@@ -0,0 +1,116 @@
+import { prisma } from '../lib/db.js';
+import { syncAccountSnapshot } from '../lib/accountSnapshots.js';
+import { mapWithConcurrency } from '../lib/concurrency.js';
+import { checkMarginLevel } from '../lib/marginWarnings.js';
+import { getMarketFeed } from '../lib/marketFeed.js';
+
+/**
+ * Background sync of MT5Account balance fields.
+ *
+ * Every SYNC_INTERVAL_MS the figures of active accounts are fetched from
+ * the bridge, stored on MT5Account and recorded as an MT5AccountSnapshot,
+ * then checked for margin warnings (lib/marginWarnings.ts). Active means not
+ * archived, with bridge credentials, and in use: the user logged in within
+ * ACTIVE_LOGIN_WINDOW_MS, the account had margin in use at its last sync
+ * (open positions), or it has a stream subscription on this instance.
+ * Each sync is a bridge login, so idle accounts are left alone and a run
+ * takes at most MAX_ACCOUNTS_PER_RUN, least recently synced first.
+ * Accounts with a recent snapshot, e.g. from another instance, are skipped
+ * so instances do not double the history. Snapshots older than
+ * SNAPSHOT_RETENTION_DAYS are pruned.
+ */
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Accounts with a snapshot within this window are skipped
+const MIN_SYNC_AGE_MS = SYNC_INTERVAL_MS * 0.8;
+// Bridge calls in flight at once
+const SYNC_CONCURRENCY = 3;
+// Accounts synced per run at most; the rest wait for the next run
+const MAX_ACCOUNTS_PER_RUN = 200;
+// Users who logged in within this window count as active
+const ACTIVE_LOGIN_WINDOW_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_RETENTION_DAYS = 180;
+
+export class AccountSyncWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+  private running = false;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.runSync();
+    this.timer = setInterval(this.runSync, SYNC_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private runSync = (): void => {
+    this.syncAll().catch((error) => {
+      console.error('[AccountSync] Sync failed:', error);
+    });
+  };
+
+  /**
+   * Sync the active accounts that are due. Runs do not overlap.
+   */
+  async syncAll(): Promise<void> {
+    if (this.syncing) return;
+    this.syncing = true;
+
+    try {
+      // Due means no recent snapshot. lastSyncedAt is not used: the balance
+      // route and margin monitor refresh it without recording history.
+      const recent = await prisma.mT5AccountSnapshot.groupBy({
+        by: ['mt5AccountId'],
+        where: { createdAt: { gte: new Date(Date.now() - MIN_SYNC_AGE_MS) } },
+      });
+      const accounts = await prisma.mT5Account.findMany({
+        where: {
+          archived: false,
+          userId: { not: null },
+          password: { not: null },
+          id: { notIn: recent.map(row => row.mt5AccountId) },
+          OR: [
+            { user: { lastLoginAt: { gte: new Date(Date.now() - ACTIVE_LOGIN_WINDOW_MS) } } },
+            { margin: { gt: 0 } },
+            { accountId: { in: getMarketFeed().getSubscribedAccounts() } },
+          ],
+        },
+        orderBy: { lastSyncedAt: { sort: 'asc', nulls: 'first' } },
+        take: MAX_ACCOUNTS_PER_RUN,
+      });
+
+      const results = await mapWithConcurrency(accounts, SYNC_CONCURRENCY, async (account) => {
+        try {
+          const figures = await syncAccountSnapshot(account);
+          if (figures) await checkMarginLevel(account, figures);
+          return Boolean(figures);
+        } catch (error) {
+          console.error(`[AccountSync] Account ${account.accountId} failed:`, error instanceof Error ? error.message : error);
+          return false;
+        }
+      });
+
+      const failed = results.filter(synced => !synced).length;
+      if (failed > 0) {
+        console.error(`[AccountSync] ${failed} of ${accounts.length} accounts not synced`);
+      }
+
+      await prisma.mT5AccountSnapshot.deleteMany({
+        where: { createdAt: { lt: new Date(Date.now() - SNAPSHOT_RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+      });
+    } finally {
+      this.syncing = false;
+    }
+  }
+}
+
+export const accountSyncWorker = new AccountSyncWorker();
@@ -0,0 +1,51 @@
+import { getMarketFeed, MarketFeed, PositionsUpdate } from '../lib/marketFeed.js';
+import { extractPositionId } from '../lib/metaapi.js';
+import { invalidateAnalytics } from '../lib/analyticsCache.js';
+
+/**
+ * Drops cached analytics when a position closes outside the close routes
+ * (SL/TP hits, stop outs, closes from another terminal).
+ *
+ * It only watches the feed passively: accounts already subscribed by the
+ * stream gateway or another worker are covered, others rely on the cache
+ * TTL. A position missing from an account's latest snapshot counts as
+ * closed.
+ */
+export class AnalyticsInvalidator {
+  private feed: MarketFeed;
+  private openPositions: Map<string, Set<number>> = new Map();
+  private running = false;
+
+  constructor(feed: MarketFeed = getMarketFeed()) {
+    this.feed = feed;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.feed.on('positions', this.onPositions);
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.feed.off('positions', this.onPositions);
+    this.openPositions.clear();
+  }
+
+  private onPositions = (update: PositionsUpdate): void => {
+    const current = new Set(
+      update.positions
+        .map(position => extractPositionId(position))
+        .filter(positionId => positionId > 0)
+    );
+    const previous = this.openPositions.get(update.accountId);
+    this.openPositions.set(update.accountId, current);
+
+    if (previous && [...previous].some(positionId => !current.has(positionId))) {
+      invalidateAnalytics(update.accountId);
+    }
+  };
+}
+
+export const analyticsInvalidator = new AnalyticsInvalidator();
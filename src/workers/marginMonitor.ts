@@ -0,0 +1,73 @@
+import { prisma } from '../lib/db.js';
+import { getMarketFeed, MarketFeed, PositionsUpdate } from '../lib/marketFeed.js';
+import { MetaApiClient } from '../lib/metaapi.js';
+import { extractAccountFigures, saveAccountFigures } from '../lib/accountSnapshots.js';
+import { checkMarginLevel } from '../lib/marginWarnings.js';
+
+/**
+ * Checks margin warnings between account syncs.
+ *
+ * Position updates on the market feed mean P/L and margin are moving, so
+ * for accounts the feed is already streaming the balance is fetched (at
+ * most once per CHECK_INTERVAL_MS per account), stored on MT5Account and
+ * checked against the thresholds. Other accounts are covered by the
+ * account sync worker.
+ */
+
+const CHECK_INTERVAL_MS = 15000;
+
+export class MarginMonitor {
+  private feed: MarketFeed;
+  private lastCheckAt: Map<string, number> = new Map();
+  private checking: Set<string> = new Set();
+  private running = false;
+
+  constructor(feed: MarketFeed = getMarketFeed()) {
+    this.feed = feed;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.feed.on('positions', this.onPositions);
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.feed.off('positions', this.onPositions);
+    this.lastCheckAt.clear();
+  }
+
+  private onPositions = (update: PositionsUpdate): void => {
+    const { accountId } = update;
+    if (this.checking.has(accountId)) return;
+    if (Date.now() - (this.lastCheckAt.get(accountId) ?? 0) < CHECK_INTERVAL_MS) return;
+
+    this.checking.add(accountId);
+    this.lastCheckAt.set(accountId, Date.now());
+    this.check(accountId)
+      .catch((error) => {
+        console.error(`[MarginMonitor] Check failed for account ${accountId}:`, error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        this.checking.delete(accountId);
+      });
+  };
+
+  private async check(accountId: string): Promise<void> {
+    const mt5Account = await prisma.mT5Account.findFirst({
+      where: { accountId, archived: false, userId: { not: null } },
+    });
+    if (!mt5Account) return;
+
+    const client = new MetaApiClient(mt5Account, 'margin');
+    const figures = extractAccountFigures(await client.getBalance());
+    if (!figures) return;
+
+    await saveAccountFigures(mt5Account.id, figures);
+    await checkMarginLevel(mt5Account, figures);
+  }
+}
+
+export const marginMonitor = new MarginMonitor();
@@ -0,0 +1,302 @@
+import type { OrderLink } from '@prisma/client';
+import { prisma } from '../lib/db.js';
+import { getMarketFeed, MarketFeed } from '../lib/marketFeed.js';
+import { extractOrderId, extractPositionId, extractSide, MetaApiAccount, MetaApiClient } from '../lib/metaapi.js';
+import { findInstrument } from '../lib/instruments.js';
+import { resolveBracketLevels } from '../lib/orderLinks.js';
+import { notify } from '../lib/notifications.js';
+
+/**
+ * Background worker for OrderLink rows.
+ *
+ * The trading feed is subscribed for every account with active links and
+ * each position/order update triggers a check of that account's links
+ * against its pending orders and open positions (with a periodic check as
+ * a fallback for missed updates). An order that is no longer pending has
+ * filled if a position with its ticket is open; MT5 gives a position the
+ * ticket of the order that opened it.
+ *
+ * - oco: once either order fills or goes away the other is cancelled
+ * - bracket: once the entry fills, distance-based SL/TP are set on the new
+ *   position (price levels are placed with the entry order itself)
+ */
+
+// Pick up links changed by other instances and re-check every account
+const CHECK_INTERVAL_MS = 30000;
+// An order the bridge accepted with 10012 may take a moment to show up as
+// pending; until then a missing order is not taken as cancelled
+const PLACEMENT_GRACE_MS = 15000;
+
+interface AccountLinks {
+  account: MetaApiAccount & { group: string | null };
+  links: OrderLink[];
+}
+
+export class OrderLinkWorker {
+  private feed: MarketFeed;
+  private accounts: Map<string, AccountLinks> = new Map();
+  private checking: Set<string> = new Set();
+  private recheck: Set<string> = new Set();
+  private checkTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(feed: MarketFeed = getMarketFeed()) {
+    this.feed = feed;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    this.feed.on('order', this.onAccountUpdate);
+    this.feed.on('positions', this.onAccountUpdate);
+    await this.reload();
+
+    this.checkTimer = setInterval(() => {
+      this.reload()
+        .then(() => {
+          for (const accountId of this.accounts.keys()) this.scheduleCheck(accountId);
+        })
+        .catch((error) => {
+          console.error('[OrderLinks] Reload failed:', error);
+        });
+    }, CHECK_INTERVAL_MS);
+    this.checkTimer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    this.feed.off('order', this.onAccountUpdate);
+    this.feed.off('positions', this.onAccountUpdate);
+    if (this.checkTimer) clearInterval(this.checkTimer);
+    await Promise.all([...this.accounts.keys()].map(accountId => this.feed.unsubscribeAccount(accountId)));
+    this.accounts.clear();
+  }
+
+  /**
+   * Reload active links from the database and adjust account subscriptions.
+   * Routes call this after creating or removing a link.
+   */
+  async reload(): Promise<void> {
+    if (!this.running) return;
+
+    const links = await prisma.orderLink.findMany({
+      where: { status: 'active' },
+      include: {
+        mt5Account: {
+          select: { accountId: true, password: true, group: true },
+        },
+      },
+    });
+
+    const next = new Map<string, AccountLinks>();
+    for (const { mt5Account, ...link } of links) {
+      const entry = next.get(mt5Account.accountId) ?? { account: mt5Account, links: [] };
+      entry.links.push(link);
+      next.set(mt5Account.accountId, entry);
+    }
+
+    const added = [...next.values()].filter(entry => !this.accounts.has(entry.account.accountId));
+    const removed = [...this.accounts.keys()].filter(accountId => !next.has(accountId));
+
+    this.accounts = next;
+    await Promise.all(added.map(entry => this.feed.subscribeAccount(entry.account)));
+    await Promise.all(removed.map(accountId => this.feed.unsubscribeAccount(accountId)));
+  }
+
+  private onAccountUpdate = (update: { accountId: string }): void => {
+    if (this.accounts.has(update.accountId)) this.scheduleCheck(update.accountId);
+  };
+
+  /**
+   * Check an account's links, at most one check per account at a time.
+   * Updates arriving mid-check queue one more check.
+   */
+  private scheduleCheck(accountId: string): void {
+    if (this.checking.has(accountId)) {
+      this.recheck.add(accountId);
+      return;
+    }
+
+    this.checking.add(accountId);
+    this.checkAccount(accountId)
+      .catch((error) => {
+        console.error('[OrderLinks] Account check failed:', { accountId, error });
+      })
+      .finally(() => {
+        this.checking.delete(accountId);
+        if (this.recheck.delete(accountId)) this.scheduleCheck(accountId);
+      });
+  }
+
+  private async checkAccount(accountId: string): Promise<void> {
+    const entry = this.accounts.get(accountId);
+    if (!entry || entry.links.length === 0) return;
+
+    const client = new MetaApiClient(entry.account, `links_${accountId}`);
+    const [orders, positions] = await Promise.all([client.getOrders(), client.getPositions()]);
+    const pending = new Set(orders.map(order => extractOrderId(order)));
+    const positionsById = new Map(positions.map(position => [extractPositionId(position), position]));
+
+    let changed = false;
+    for (const link of entry.links) {
+      const done = link.type === 'oco'
+        ? await this.resolveOco(client, link, pending, positionsById)
+        : await this.resolveBracket(client, entry.account.group, link, pending, positionsById);
+      changed = changed || done;
+    }
+
+    if (changed) {
+      entry.links = entry.links.filter(link => link.status === 'active');
+    }
+  }
+
+  /**
+   * Cancel what is left of an OCO pair once one order is no longer pending
+   * @returns whether the link was completed
+   */
+  private async resolveOco(
+    client: MetaApiClient,
+    link: OrderLink,
+    pending: Set<number>,
+    positionsById: Map<number, any>
+  ): Promise<boolean> {
+    const legs = [Number(link.primaryOrderId), Number(link.secondaryOrderId)];
+    const gone = legs.filter(orderId => !pending.has(orderId));
+    if (gone.length === 0) return false;
+
+    const filledOrderId = gone.find(orderId => positionsById.has(orderId)) ?? null;
+    if (filledOrderId === null && Date.now() - link.createdAt.getTime() < PLACEMENT_GRACE_MS) return false;
+
+    if (!await this.complete(link, filledOrderId !== null ? 'filled' : 'cancelled', filledOrderId)) return true;
+
+    const remaining = legs.filter(orderId => pending.has(orderId));
+    const failures: string[] = [];
+    for (const orderId of remaining) {
+      try {
+        await client.cancelPendingOrder(orderId);
+      } catch (error) {
+        failures.push(`#${orderId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      await this.fail(link, `Failed to cancel ${failures.join(', ')}`);
+      return true;
+    }
+
+    if (filledOrderId !== null) {
+      notify({
+        userId: link.userId,
+        type: 'order_filled',
+        title: 'OCO order filled',
+        message: remaining.length > 0
+          ? `${link.symbol} order #${filledOrderId} filled; #${remaining.join(', #')} cancelled`
+          : `${link.symbol} order #${filledOrderId} filled`,
+        metadata: { linkId: link.id, symbol: link.symbol, filledOrderId, cancelledOrderIds: remaining },
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Complete a bracket once its entry fills, setting distance-based SL/TP
+   * on the position it opened
+   * @returns whether the link was completed
+   */
+  private async resolveBracket(
+    client: MetaApiClient,
+    group: string | null,
+    link: OrderLink,
+    pending: Set<number>,
+    positionsById: Map<number, any>
+  ): Promise<boolean> {
+    const orderId = Number(link.primaryOrderId);
+    if (pending.has(orderId)) return false;
+
+    const position = positionsById.get(orderId);
+    if (!position) {
+      // Cancelled or expired (or filled and already closed)
+      if (Date.now() - link.createdAt.getTime() < PLACEMENT_GRACE_MS) return false;
+      await this.complete(link, 'cancelled', null);
+      return true;
+    }
+
+    if (!await this.complete(link, 'filled', orderId)) return true;
+
+    const side = extractSide(position);
+    const openPrice = Number(position.PriceOpen ?? position.priceOpen ?? position.OpenPrice ?? position.openPrice ?? 0);
+    const priced = (link.bracketMode ?? 'price') === 'price';
+    const instrument = priced ? null : await findInstrument(link.symbol, group);
+    const levels = side && openPrice > 0
+      ? resolveBracketLevels(link, side, openPrice, instrument)
+      : { stopLoss: null, takeProfit: null };
+
+    // Price levels were placed with the entry order and carried over on the fill
+    if (!priced) {
+      if (levels.stopLoss === null && levels.takeProfit === null) {
+        await this.fail(link, 'Could not work out SL/TP for the filled position');
+        return true;
+      }
+
+      try {
+        await client.modifyPosition({
+          positionId: orderId,
+          stopLoss: levels.stopLoss ?? undefined,
+          takeProfit: levels.takeProfit ?? undefined,
+          comment: 'Bracket',
+        });
+      } catch (error) {
+        await this.fail(link, error instanceof Error ? error.message : 'Failed to set SL/TP');
+        return true;
+      }
+    }
+
+    notify({
+      userId: link.userId,
+      type: 'order_filled',
+      title: 'Bracket order filled',
+      message: `${link.symbol} order #${orderId} filled; SL ${levels.stopLoss ?? '-'} / TP ${levels.takeProfit ?? '-'} set`,
+      metadata: { linkId: link.id, symbol: link.symbol, positionId: orderId, ...levels },
+    });
+    return true;
+  }
+
+  /**
+   * Close out an active link. The conditional update makes sure only one
+   * instance acts on a fill.
+   * @returns false if another instance already did
+   */
+  private async complete(link: OrderLink, status: 'filled' | 'cancelled', filledOrderId: number | null): Promise<boolean> {
+    const updated = await prisma.orderLink.updateMany({
+      where: { id: link.id, status: 'active' },
+      data: {
+        status,
+        filledOrderId: filledOrderId !== null ? String(filledOrderId) : null,
+        completedAt: new Date(),
+      },
+    });
+    link.status = status;
+    return updated.count > 0;
+  }
+
+  private async fail(link: OrderLink, error: string): Promise<void> {
+    link.status = 'failed';
+    await prisma.orderLink.update({
+      where: { id: link.id },
+      data: { status: 'failed', error },
+    });
+
+    notify({
+      userId: link.userId,
+      type: 'order_link_failed',
+      title: link.type === 'oco' ? 'OCO order needs attention' : 'Bracket order needs attention',
+      message: `${link.symbol}: ${error}`,
+      metadata: { linkId: link.id, symbol: link.symbol, error },
+    });
+  }
+}
+
+export const orderLinkWorker = new OrderLinkWorker();
@@ -0,0 +1,205 @@
+import { prisma } from '../lib/db.js';
+import { getMarketFeed, MarketFeed, normalizeSymbol, Tick } from '../lib/marketFeed.js';
+import { createNotification } from '../lib/notifications.js';
+
+/**
+ * Background evaluator for PriceAlert rows.
+ *
+ * Active alerts are kept in memory grouped by symbol and checked on every
+ * tick from the market feed. Conditions are crossings: 'above' fires when
+ * the bid moves from below the target to at/above it, 'below' the reverse.
+ * One-shot alerts are deactivated when they fire; repeating alerts stay
+ * active and fire again on the next crossing.
+ */
+
+export const ALERT_CONDITIONS = ['above', 'below'] as const;
+export type AlertCondition = typeof ALERT_CONDITIONS[number];
+
+// Pick up alerts changed by other instances
+const RELOAD_INTERVAL_MS = 60000;
+// Minimum gap between two firings of a repeating alert
+const REPEAT_COOLDOWN_MS = 60000;
+
+interface ActiveAlert {
+  id: string;
+  userId: string;
+  symbol: string;
+  targetPrice: number;
+  condition: string;
+  isRepeating: boolean;
+}
+
+/**
+ * Whether moving from previousPrice to price crosses the alert target
+ */
+export function hasCrossed(condition: string, targetPrice: number, previousPrice: number, price: number): boolean {
+  if (condition === 'above') {
+    return previousPrice < targetPrice && price >= targetPrice;
+  }
+  if (condition === 'below') {
+    return previousPrice > targetPrice && price <= targetPrice;
+  }
+  return false;
+}
+
+export class PriceAlertEvaluator {
+  private feed: MarketFeed;
+  private alertsBySymbol: Map<string, ActiveAlert[]> = new Map();
+  private lastPrices: Map<string, number> = new Map();
+  private firing: Set<string> = new Set();
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(feed: MarketFeed = getMarketFeed()) {
+    this.feed = feed;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    this.feed.on('tick', this.onTick);
+    await this.reload();
+
+    this.reloadTimer = setInterval(() => {
+      this.reload().catch((error) => {
+        console.error('[PriceAlerts] Reload failed:', error);
+      });
+    }, RELOAD_INTERVAL_MS);
+    this.reloadTimer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    this.feed.off('tick', this.onTick);
+    if (this.reloadTimer) clearInterval(this.reloadTimer);
+    await this.feed.unsubscribeSymbols([...this.alertsBySymbol.keys()]);
+    this.alertsBySymbol.clear();
+  }
+
+  /**
+   * Reload active alerts from the database and adjust feed subscriptions.
+   * Routes call this after creating, updating or deleting an alert.
+   */
+  async reload(): Promise<void> {
+    if (!this.running) return;
+
+    const alerts = await prisma.priceAlert.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { isTriggered: false },
+          { isRepeating: true },
+        ],
+      },
+      select: {
+        id: true,
+        userId: true,
+        symbol: true,
+        targetPrice: true,
+        condition: true,
+        isRepeating: true,
+      },
+    });
+
+    const next = new Map<string, ActiveAlert[]>();
+    for (const alert of alerts) {
+      const symbol = normalizeSymbol(alert.symbol);
+      next.set(symbol, [...(next.get(symbol) ?? []), alert]);
+    }
+
+    const previousSymbols = new Set(this.alertsBySymbol.keys());
+    const added = [...next.keys()].filter(symbol => !previousSymbols.has(symbol));
+    const removed = [...previousSymbols].filter(symbol => !next.has(symbol));
+
+    this.alertsBySymbol = next;
+    await this.feed.subscribeSymbols(added);
+    await this.feed.unsubscribeSymbols(removed);
+  }
+
+  private onTick = (tick: Tick): void => {
+    const alerts = this.alertsBySymbol.get(tick.symbol);
+    const previousPrice = this.lastPrices.get(tick.symbol);
+    this.lastPrices.set(tick.symbol, tick.bid);
+
+    if (!alerts || previousPrice === undefined) return;
+
+    for (const alert of alerts) {
+      if (this.firing.has(alert.id)) continue;
+      if (!hasCrossed(alert.condition, alert.targetPrice, previousPrice, tick.bid)) continue;
+
+      this.firing.add(alert.id);
+      this.fire(alert, tick.bid)
+        .catch((error) => {
+          console.error('[PriceAlerts] Failed to trigger alert:', { alertId: alert.id, error });
+        })
+        .finally(() => {
+          this.firing.delete(alert.id);
+        });
+    }
+  };
+
+  /**
+   * Mark the alert as triggered and write a notification. The conditional
+   * update makes sure only one instance fires a given crossing.
+   */
+  private async fire(alert: ActiveAlert, price: number): Promise<void> {
+    const now = new Date();
+
+    const updated = await prisma.priceAlert.updateMany({
+      where: alert.isRepeating
+        ? {
+          id: alert.id,
+          isActive: true,
+          OR: [
+            { triggeredAt: null },
+            { triggeredAt: { lt: new Date(now.getTime() - REPEAT_COOLDOWN_MS) } },
+          ],
+        }
+        : { id: alert.id, isActive: true, isTriggered: false },
+      data: {
+        isTriggered: true,
+        triggeredAt: now,
+        ...(alert.isRepeating ? {} : { isActive: false }),
+      },
+    });
+
+    if (updated.count === 0) return;
+
+    if (!alert.isRepeating) {
+      this.removeAlert(alert);
+    }
+
+    await createNotification({
+      userId: alert.userId,
+      type: 'price_alert',
+      title: `${alert.symbol} price alert`,
+      message: `${alert.symbol} crossed ${alert.condition} ${alert.targetPrice} (price ${price})`,
+      metadata: {
+        alertId: alert.id,
+        symbol: alert.symbol,
+        condition: alert.condition,
+        targetPrice: alert.targetPrice,
+        price,
+      },
+    });
+  }
+
+  private removeAlert(alert: ActiveAlert): void {
+    const symbol = normalizeSymbol(alert.symbol);
+    const remaining = (this.alertsBySymbol.get(symbol) ?? []).filter(a => a.id !== alert.id);
+    if (remaining.length > 0) {
+      this.alertsBySymbol.set(symbol, remaining);
+      return;
+    }
+
+    this.alertsBySymbol.delete(symbol);
+    this.feed.unsubscribeSymbols([symbol]).catch((error) => {
+      console.error('[PriceAlerts] Unsubscribe failed:', error);
+    });
+  }
+}
+
+export const priceAlertEvaluator = new PriceAlertEvaluator();
@@ -0,0 +1,348 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../lib/db.js';
+import { getMarketFeed, MarketFeed, normalizeSymbol, Tick } from '../lib/marketFeed.js';
+import { extractProtection, MetaApiAccount, MetaApiClient, MetaApiError } from '../lib/metaapi.js';
+import { findInstrument, getPointSize, roundPrice } from '../lib/instruments.js';
+import { holdClaim, idempotencyStore, IdempotencyStore } from '../lib/idempotency.js';
+import { notify } from '../lib/notifications.js';
+
+/**
+ * Background worker for TrailingStop rows.
+ *
+ * Active trailing stops are kept in memory grouped by symbol. On every tick
+ * the SL a stop wants is `distance` points behind the closing price (bid for
+ * buys, ask for sells); when that improves on the current SL by at least
+ * `step` points the position is modified through the bridge. The SL never
+ * moves backwards: before modifying, the position's live SL is compared too,
+ * so an SL the user tightened by hand is kept. A stop whose position is gone
+ * is deactivated.
+ *
+ * Every instance watches every stop, so a move first claims the position
+ * in the idempotency store (`trailing-stop:<positionId>`); an instance that
+ * finds it claimed leaves the move to the holder. Failed moves are retried
+ * with exponential backoff. Stops that cannot log in to the bridge (no
+ * password, or MAX_AUTH_FAILURES rejected logins in a row) are deactivated
+ * and the user is notified.
+ */
+
+// Pick up trailing stops changed by other instances
+const RELOAD_INTERVAL_MS = 60000;
+// Wait before the first retry of a stop whose move failed; doubles per failure
+const RETRY_DELAY_MS = 30000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+// Rejected logins in a row before a stop is deactivated
+const MAX_AUTH_FAILURES = 5;
+
+interface ActiveTrailingStop {
+  id: string;
+  userId: string;
+  account: MetaApiAccount;
+  positionId: number;
+  symbol: string;
+  side: string;
+  distance: number;
+  step: number;
+  stopLoss: number | null;
+  pointSize: number;
+  digits: number;
+}
+
+/**
+ * New SL for a trailing stop at the given price, or null if the SL should
+ * stay where it is.
+ * @param price Bid for buy positions, ask for sell positions
+ */
+export function computeTrailingStopLoss(
+  stop: Pick<ActiveTrailingStop, 'side' | 'distance' | 'step' | 'stopLoss' | 'pointSize' | 'digits'>,
+  price: number
+): number | null {
+  const distance = stop.distance * stop.pointSize;
+  const step = stop.step * stop.pointSize;
+
+  if (stop.side === 'buy') {
+    const target = roundPrice(price - distance, stop.digits);
+    if (stop.stopLoss === null || target >= stop.stopLoss + step - stop.pointSize / 2) return target;
+    return null;
+  }
+  if (stop.side === 'sell') {
+    const target = roundPrice(price + distance, stop.digits);
+    if (stop.stopLoss === null || target <= stop.stopLoss - step + stop.pointSize / 2) return target;
+    return null;
+  }
+  return null;
+}
+
+/**
+ * The tighter of two stop-losses for a side (higher for buys, lower for
+ * sells); null/0 counts as no stop
+ */
+export function tighterStopLoss(side: string, a: number | null, b: number | null): number | null {
+  const stops = [a, b].filter((value): value is number => value !== null && value > 0);
+  if (stops.length === 0) return null;
+  return side === 'sell' ? Math.min(...stops) : Math.max(...stops);
+}
+
+/**
+ * Delay before retrying a stop after its nth failure in a row
+ */
+export function getRetryDelay(failures: number): number {
+  return Math.min(RETRY_DELAY_MS * 2 ** Math.max(0, failures - 1), MAX_RETRY_DELAY_MS);
+}
+
+export class TrailingStopWorker {
+  private feed: MarketFeed;
+  private locks: IdempotencyStore;
+  // Identifies this instance's claims on positions
+  private instanceId = randomUUID();
+  private stopsBySymbol: Map<string, ActiveTrailingStop[]> = new Map();
+  private moving: Set<string> = new Set();
+  private retries: Map<string, { at: number; failures: number; authFailures: number }> = new Map();
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(feed: MarketFeed = getMarketFeed(), locks: IdempotencyStore = idempotencyStore) {
+    this.feed = feed;
+    this.locks = locks;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    this.feed.on('tick', this.onTick);
+    await this.reload();
+
+    this.reloadTimer = setInterval(() => {
+      this.reload().catch((error) => {
+        console.error('[TrailingStops] Reload failed:', error);
+      });
+    }, RELOAD_INTERVAL_MS);
+    this.reloadTimer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    this.feed.off('tick', this.onTick);
+    if (this.reloadTimer) clearInterval(this.reloadTimer);
+    await this.feed.unsubscribeSymbols([...this.stopsBySymbol.keys()]);
+    this.stopsBySymbol.clear();
+  }
+
+  /**
+   * Reload active trailing stops from the database and adjust feed
+   * subscriptions. Routes call this after attaching or removing a stop.
+   */
+  async reload(): Promise<void> {
+    if (!this.running) return;
+
+    const rows = await prisma.trailingStop.findMany({
+      where: { isActive: true },
+      include: {
+        mt5Account: {
+          select: { accountId: true, password: true, group: true },
+        },
+      },
+    });
+
+    // Nothing can move these without bridge credentials
+    const noPassword = rows.filter(row => !row.mt5Account.password?.trim());
+    for (const row of noPassword) {
+      await this.deactivate(row, 'its MT5 account has no saved password');
+    }
+
+    // Point size and digits come from the instrument for the account's group
+    const instruments = new Map<string, Awaited<ReturnType<typeof findInstrument>>>();
+    const next = new Map<string, ActiveTrailingStop[]>();
+    for (const row of rows) {
+      if (noPassword.includes(row)) continue;
+      const instrumentKey = `${row.symbol}|${row.mt5Account.group ?? ''}`;
+      if (!instruments.has(instrumentKey)) {
+        instruments.set(instrumentKey, await findInstrument(row.symbol, row.mt5Account.group));
+      }
+      const instrument = instruments.get(instrumentKey);
+      if (!instrument) {
+        console.error('[TrailingStops] No instrument for trailing stop:', { trailingStopId: row.id, symbol: row.symbol });
+        continue;
+      }
+
+      const symbol = normalizeSymbol(row.symbol);
+      next.set(symbol, [...(next.get(symbol) ?? []), {
+        id: row.id,
+        userId: row.userId,
+        account: { accountId: row.mt5Account.accountId, password: row.mt5Account.password },
+        positionId: Number(row.positionId),
+        symbol: row.symbol,
+        side: row.side,
+        distance: row.distance,
+        step: row.step,
+        stopLoss: row.stopLoss,
+        pointSize: getPointSize(instrument),
+        digits: instrument.digits,
+      }]);
+    }
+
+    const previousSymbols = new Set(this.stopsBySymbol.keys());
+    const added = [...next.keys()].filter(symbol => !previousSymbols.has(symbol));
+    const removed = [...previousSymbols].filter(symbol => !next.has(symbol));
+
+    this.stopsBySymbol = next;
+    await this.feed.subscribeSymbols(added);
+    await this.feed.unsubscribeSymbols(removed);
+  }
+
+  private onTick = (tick: Tick): void => {
+    const stops = this.stopsBySymbol.get(tick.symbol);
+    if (!stops) return;
+
+    const now = Date.now();
+    for (const stop of stops) {
+      if (this.moving.has(stop.id)) continue;
+      if ((this.retries.get(stop.id)?.at ?? 0) > now) continue;
+
+      const price = stop.side === 'buy' ? tick.bid : tick.ask;
+      const stopLoss = computeTrailingStopLoss(stop, price);
+      if (stopLoss === null || stopLoss <= 0) continue;
+
+      this.moving.add(stop.id);
+      this.moveClaimed(stop, price)
+        .then(() => {
+          this.retries.delete(stop.id);
+        })
+        .catch((error) => this.onMoveFailed(stop, error))
+        .finally(() => {
+          this.moving.delete(stop.id);
+        });
+    }
+  };
+
+  /**
+   * Move a stop while holding its position's claim, so only one instance
+   * modifies the position at a time. Skipped when another instance holds it.
+   */
+  private async moveClaimed(stop: ActiveTrailingStop, price: number): Promise<void> {
+    const key = `trailing-stop:${stop.positionId}`;
+    const claim = await this.locks.begin(key, this.instanceId);
+    if (claim.state !== 'new') return;
+
+    const stopRefreshing = holdClaim(this.locks, key, this.instanceId);
+    try {
+      await this.move(stop, price);
+    } finally {
+      stopRefreshing();
+      await this.locks.release(key, this.instanceId);
+    }
+  }
+
+  /**
+   * Back off a failed stop; deactivate it once its logins keep being rejected
+   */
+  private async onMoveFailed(stop: ActiveTrailingStop, error: unknown): Promise<void> {
+    const previous = this.retries.get(stop.id);
+    const failures = (previous?.failures ?? 0) + 1;
+    const rejected = error instanceof MetaApiError && error.statusCode === 401;
+    const authFailures = rejected ? (previous?.authFailures ?? 0) + 1 : 0;
+    console.error('[TrailingStops] Failed to move stop loss:', { trailingStopId: stop.id, failures, error });
+
+    if (authFailures >= MAX_AUTH_FAILURES) {
+      await this.deactivate(
+        { id: stop.id, userId: stop.userId, positionId: String(stop.positionId), symbol: stop.symbol },
+        'the bridge keeps rejecting its MT5 account login'
+      ).catch((deactivateError) => {
+        console.error('[TrailingStops] Failed to deactivate stop:', { trailingStopId: stop.id, error: deactivateError });
+      });
+      this.removeStop(stop);
+      return;
+    }
+    this.retries.set(stop.id, { at: Date.now() + getRetryDelay(failures), failures, authFailures });
+  }
+
+  /**
+   * Switch off a stop that cannot be moved and tell the user why
+   */
+  private async deactivate(
+    row: { id: string; userId: string; positionId: string; symbol: string },
+    reason: string
+  ): Promise<void> {
+    const { count } = await prisma.trailingStop.updateMany({
+      where: { id: row.id, isActive: true },
+      data: { isActive: false },
+    });
+    // Another instance got there first
+    if (count === 0) return;
+
+    console.warn('[TrailingStops] Deactivated trailing stop:', { trailingStopId: row.id, reason });
+    notify({
+      userId: row.userId,
+      type: 'trailing_stop_disabled',
+      title: 'Trailing stop turned off',
+      message: `The trailing stop on ${row.symbol} position #${row.positionId} was turned off because ${reason}.`,
+      metadata: { trailingStopId: row.id, positionId: row.positionId, symbol: row.symbol },
+    });
+  }
+
+  /**
+   * Move the position's SL through the bridge's modify call, keeping its TP.
+   * The move is recomputed against the tighter of the live and stored SL and
+   * skipped when it would not improve on it.
+   */
+  private async move(stop: ActiveTrailingStop, price: number): Promise<void> {
+    const client = new MetaApiClient(stop.account, `trailing_${stop.userId}`);
+    const position = await client.findPosition(stop.positionId);
+
+    if (!position) {
+      await prisma.trailingStop.updateMany({
+        where: { id: stop.id, isActive: true },
+        data: { isActive: false },
+      });
+      this.removeStop(stop);
+      return;
+    }
+
+    const live = extractProtection(position);
+    const current = tighterStopLoss(stop.side, stop.stopLoss, live.stopLoss);
+    const stopLoss = computeTrailingStopLoss({ ...stop, stopLoss: current }, price);
+    if (stopLoss === null || stopLoss <= 0) {
+      // The SL was tightened elsewhere; trail from there
+      if (current !== stop.stopLoss) {
+        stop.stopLoss = current;
+        await prisma.trailingStop.updateMany({
+          where: { id: stop.id, isActive: true },
+          data: { stopLoss: current },
+        });
+      }
+      return;
+    }
+
+    await client.modifyPosition({
+      positionId: stop.positionId,
+      stopLoss,
+      takeProfit: live.takeProfit ?? undefined,
+      comment: 'Trailing stop',
+    });
+
+    stop.stopLoss = stopLoss;
+    await prisma.trailingStop.updateMany({
+      where: { id: stop.id, isActive: true },
+      data: { stopLoss, lastMovedAt: new Date() },
+    });
+  }
+
+  private removeStop(stop: ActiveTrailingStop): void {
+    const symbol = normalizeSymbol(stop.symbol);
+    const remaining = (this.stopsBySymbol.get(symbol) ?? []).filter(s => s.id !== stop.id);
+    this.retries.delete(stop.id);
+    if (remaining.length > 0) {
+      this.stopsBySymbol.set(symbol, remaining);
+      return;
+    }
+
+    this.stopsBySymbol.delete(symbol);
+    this.feed.unsubscribeSymbols([symbol]).catch((error) => {
+      console.error('[TrailingStops] Unsubscribe failed:', error);
+    });
+  }
+}
+
+export const trailingStopWorker = new TrailingStopWorker();
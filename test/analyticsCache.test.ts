@@ -0,0 +1,62 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ANALYTICS_TTL_SECONDS, getLatestTrade, hasNewerTrade, MemoryAnalyticsCache } from '../src/lib/analyticsCache.js';
+import type { AccountAnalytics } from '../src/lib/analytics.js';
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe('MemoryAnalyticsCache', () => {
+  const analytics = { analytics: { totalTrades: 3 } as unknown as AccountAnalytics, latestTrade: null };
+
+  it('keeps entries per account and query until the TTL passes', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const cache = new MemoryAnalyticsCache();
+    await cache.set('1001', 'all', analytics);
+
+    assert.equal(await cache.get('1001', 'all'), analytics);
+    assert.equal(await cache.get('1001', 'month'), null);
+    assert.equal(await cache.get('1002', 'all'), null);
+
+    mock.timers.tick(ANALYTICS_TTL_SECONDS * 1000);
+    assert.equal(await cache.get('1001', 'all'), null);
+  });
+
+  it('invalidates every query of an account only', async () => {
+    const cache = new MemoryAnalyticsCache();
+    await cache.set('1001', 'all', analytics);
+    await cache.set('1001', 'month', analytics);
+    await cache.set('1002', 'all', analytics);
+
+    await cache.invalidate('1001');
+    assert.equal(await cache.get('1001', 'all'), null);
+    assert.equal(await cache.get('1001', 'month'), null);
+    assert.equal(await cache.get('1002', 'all'), analytics);
+  });
+});
+
+describe('hasNewerTrade', () => {
+  const trades = [
+    { ticket: 5, closeTime: '2024-01-10T10:00:00.000Z' },
+    { ticket: 9, closeTime: '2024-01-12T10:00:00.000Z' },
+    { ticket: 7, closeTime: null },
+  ];
+
+  it('finds the latest trade by close time', () => {
+    assert.deepEqual(getLatestTrade(trades), { ticket: 9, closeTime: '2024-01-12T10:00:00.000Z' });
+    assert.equal(getLatestTrade([]), null);
+  });
+
+  it('spots a trade closed after the cached one', () => {
+    const latest = getLatestTrade(trades);
+    assert.equal(hasNewerTrade(trades, latest), false);
+    assert.equal(hasNewerTrade([...trades, { ticket: 10, closeTime: '2024-01-12T10:00:00.000Z' }], latest), true);
+    assert.equal(hasNewerTrade([...trades, { ticket: 3, closeTime: '2024-01-13T00:00:00.000Z' }], latest), true);
+  });
+
+  it('treats any trade as newer when the cached range had none', () => {
+    assert.equal(hasNewerTrade([], null), false);
+    assert.equal(hasNewerTrade(trades, null), true);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Redis } from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import {
+  IDEMPOTENCY_LOCK_SECONDS,
+  IDEMPOTENCY_TTL_SECONDS,
+  MemoryIdempotencyStore,
+  RedisIdempotencyStore,
+} from '../src/lib/idempotency.js';
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe('MemoryIdempotencyStore', () => {
+  const response = { status: 200, body: { success: true } };
+
+  it('claims a new key and reports it in flight to later requests', async () => {
+    const store = new MemoryIdempotencyStore();
+    assert.deepEqual(await store.begin('key', 'fp'), { state: 'new' });
+    assert.deepEqual(await store.begin('key', 'fp'), { state: 'in_flight', fingerprint: 'fp' });
+    assert.deepEqual(await store.peek('key'), { state: 'in_flight', fingerprint: 'fp' });
+  });
+
+  it('replays the completed response until the TTL passes', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const store = new MemoryIdempotencyStore();
+    await store.begin('key', 'fp');
+    await store.complete('key', 'fp', response);
+
+    assert.deepEqual(await store.begin('key', 'fp'), { state: 'completed', fingerprint: 'fp', response });
+    mock.timers.tick(IDEMPOTENCY_TTL_SECONDS * 1000);
+    assert.deepEqual(await store.peek('key'), { state: 'new' });
+  });
+
+  it('frees a claim that was never completed once the lock expires', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const store = new MemoryIdempotencyStore();
+    await store.begin('key', 'fp');
+
+    mock.timers.tick(IDEMPOTENCY_LOCK_SECONDS * 1000);
+    assert.deepEqual(await store.begin('key', 'fp'), { state: 'new' });
+  });
+
+  it('keeps a refreshed claim past the lock time', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const store = new MemoryIdempotencyStore();
+    await store.begin('key', 'fp');
+
+    mock.timers.tick(IDEMPOTENCY_LOCK_SECONDS * 1000 - 1);
+    assert.equal(await store.refresh('key', 'fp'), true);
+    mock.timers.tick(IDEMPOTENCY_LOCK_SECONDS * 1000 - 1);
+    assert.deepEqual(await store.begin('key', 'fp'), { state: 'in_flight', fingerprint: 'fp' });
+  });
+
+  it('only refreshes and releases the caller\'s own claim', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.begin('key', 'fp');
+
+    assert.equal(await store.refresh('key', 'other'), false);
+    await store.release('key', 'other');
+    assert.equal((await store.peek('key')).state, 'in_flight');
+
+    await store.release('key', 'fp');
+    assert.deepEqual(await store.begin('key', 'fp'), { state: 'new' });
+  });
+
+  it('does not release a completed response', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.begin('key', 'fp');
+    await store.complete('key', 'fp', response);
+
+    assert.equal(await store.refresh('key', 'fp'), false);
+    await store.release('key', 'fp');
+    assert.equal((await store.peek('key')).state, 'completed');
+  });
+
+  it('sweeps expired keys that are never read again', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const store = new MemoryIdempotencyStore();
+    await store.begin('a', 'fp');
+    await store.begin('b', 'fp');
+    assert.equal(store.size, 2);
+
+    mock.timers.tick(IDEMPOTENCY_LOCK_SECONDS * 1000);
+    await store.begin('c', 'fp');
+    assert.equal(store.size, 1);
+  });
+
+  it('drops the oldest keys past its size cap', async () => {
+    const store = new MemoryIdempotencyStore(2);
+    await store.begin('a', 'fp');
+    await store.begin('b', 'fp');
+    await store.begin('c', 'fp');
+
+    assert.equal(store.size, 2);
+    assert.deepEqual(await store.peek('a'), { state: 'new' });
+    assert.equal((await store.peek('c')).state, 'in_flight');
+  });
+});
+
+describe('RedisIdempotencyStore', () => {
+  // ioredis-mock instances share one in-process keyspace, emptied before each test
+  const redis = new RedisMock() as unknown as Redis;
+  beforeEach(async () => {
+    await redis.flushall();
+  });
+
+  it('lets only one request claim a key', async () => {
+    const first = new RedisIdempotencyStore(redis);
+    const second = new RedisIdempotencyStore(redis);
+
+    assert.deepEqual(await first.begin('key', 'fp'), { state: 'new' });
+    assert.deepEqual(await second.begin('key', 'fp'), { state: 'in_flight', fingerprint: 'fp' });
+    assert.ok(await redis.ttl('idempotency:key') <= IDEMPOTENCY_LOCK_SECONDS);
+  });
+
+  it('refreshes and releases only the caller\'s own claim', async () => {
+    const store = new RedisIdempotencyStore(redis);
+    await store.begin('key', 'fp');
+
+    assert.equal(await store.refresh('key', 'other'), false);
+    assert.equal(await store.refresh('key', 'fp'), true);
+    await store.release('key', 'other');
+    assert.equal((await store.peek('key')).state, 'in_flight');
+
+    await store.release('key', 'fp');
+    assert.deepEqual(await store.begin('key', 'fp'), { state: 'new' });
+  });
+
+  it('keeps a completed response for the TTL', async () => {
+    const store = new RedisIdempotencyStore(redis);
+    await store.begin('key', 'fp');
+    await store.complete('key', 'fp', { status: 200, body: { success: true } });
+    await store.release('key', 'fp');
+
+    assert.equal((await store.peek('key')).state, 'completed');
+    assert.ok(await redis.ttl('idempotency:key') > IDEMPOTENCY_LOCK_SECONDS);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../src/lib/db.js';
+import {
+  getActiveKillSwitch,
+  getKillSwitchUntil,
+  isKillSwitchActive,
+  isProtectiveStopLossChange,
+  KILL_SWITCH_DURATIONS,
+  KillSwitchState,
+} from '../src/lib/killSwitch.js';
+
+const HOUR = 60 * 60 * 1000;
+const off: KillSwitchState = { killSwitchActive: false, killSwitchUntil: null };
+
+/** Prisma delegates are proxies mock.method cannot wrap, so stub by assignment */
+const restores: (() => void)[] = [];
+function stub<T extends object>(delegate: T, name: keyof T & string, result: unknown): { calls: number } {
+  const target = delegate as Record<string, unknown>;
+  const original = target[name];
+  const stubbed = { calls: 0 };
+  target[name] = async () => {
+    stubbed.calls++;
+    return result;
+  };
+  restores.push(() => {
+    target[name] = original;
+  });
+  return stubbed;
+}
+
+afterEach(() => {
+  mock.timers.reset();
+  restores.splice(0).forEach(restore => restore());
+});
+
+describe('isKillSwitchActive', () => {
+  it('is off when not switched on, whatever the end time', () => {
+    assert.equal(isKillSwitchActive(off), false);
+    assert.equal(isKillSwitchActive({ killSwitchActive: false, killSwitchUntil: new Date(Date.now() + HOUR) }), false);
+  });
+
+  it('holds until its end time, or indefinitely without one', () => {
+    const until = new Date(10 * HOUR);
+    assert.equal(isKillSwitchActive({ killSwitchActive: true, killSwitchUntil: until }, new Date(10 * HOUR - 1)), true);
+    assert.equal(isKillSwitchActive({ killSwitchActive: true, killSwitchUntil: until }, new Date(10 * HOUR)), false);
+    assert.equal(isKillSwitchActive({ killSwitchActive: true, killSwitchUntil: null }), true);
+  });
+});
+
+describe('getKillSwitchUntil', () => {
+  it('starts a new pause from now', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    assert.equal(getKillSwitchUntil(off, '4h')?.getTime(), KILL_SWITCH_DURATIONS['4h']);
+  });
+
+  it('extends an active pause but never shortens it', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const active = { killSwitchActive: true, killSwitchUntil: new Date(24 * HOUR) };
+
+    assert.equal(getKillSwitchUntil(active, '1h')?.getTime(), 24 * HOUR);
+    assert.equal(getKillSwitchUntil(active, '7d')?.getTime(), KILL_SWITCH_DURATIONS['7d']);
+  });
+
+  it('keeps an open-ended pause open-ended', () => {
+    assert.equal(getKillSwitchUntil({ killSwitchActive: true, killSwitchUntil: null }, '30d'), null);
+  });
+
+  it('replaces an expired pause', () => {
+    mock.timers.enable({ apis: ['Date'], now: 10 * HOUR });
+    const expired = { killSwitchActive: true, killSwitchUntil: new Date(HOUR) };
+    assert.equal(getKillSwitchUntil(expired, '1h')?.getTime(), 11 * HOUR);
+  });
+});
+
+describe('getActiveKillSwitch', () => {
+  function mockSwitches(user: KillSwitchState | null, account: KillSwitchState | null) {
+    stub(prisma.user, 'findUnique', user);
+    return stub(prisma.mT5Account, 'findFirst', account);
+  }
+
+  it('reports the user-wide switch before the account one', async () => {
+    const until = new Date(Date.now() + HOUR);
+    mockSwitches({ killSwitchActive: true, killSwitchUntil: until }, { killSwitchActive: true, killSwitchUntil: null });
+
+    assert.deepEqual(await getActiveKillSwitch('user-1', '1001'), { scope: 'user', until });
+  });
+
+  it('reports the account switch when only the account is paused', async () => {
+    mockSwitches(off, { killSwitchActive: true, killSwitchUntil: null });
+
+    assert.deepEqual(await getActiveKillSwitch('user-1', '1001'), { scope: 'account', until: null });
+  });
+
+  it('ignores expired switches', async () => {
+    const expired = { killSwitchActive: true, killSwitchUntil: new Date(Date.now() - 1) };
+    mockSwitches(expired, expired);
+
+    assert.equal(await getActiveKillSwitch('user-1', '1001'), null);
+  });
+
+  it('only looks up the account when one is given', async () => {
+    const findAccount = mockSwitches(off, { killSwitchActive: true, killSwitchUntil: null });
+
+    assert.equal(await getActiveKillSwitch('user-1'), null);
+    assert.equal(findAccount.calls, 0);
+  });
+});
+
+describe('isProtectiveStopLossChange', () => {
+  it('allows adding a stop loss but not removing one', () => {
+    assert.equal(isProtectiveStopLossChange('buy', null, 1.09), true);
+    assert.equal(isProtectiveStopLossChange('buy', 1.09, 0), false);
+    assert.equal(isProtectiveStopLossChange('buy', null, 0), true);
+  });
+
+  it('allows tightening toward the price but not widening', () => {
+    assert.equal(isProtectiveStopLossChange('buy', 1.09, 1.095), true);
+    assert.equal(isProtectiveStopLossChange('buy', 1.09, 1.085), false);
+    assert.equal(isProtectiveStopLossChange('sell', 1.11, 1.105), true);
+    assert.equal(isProtectiveStopLossChange('sell', 1.11, 1.115), false);
+  });
+});
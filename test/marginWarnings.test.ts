@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextMarginWarningLevel } from '../src/lib/marginWarnings.js';
+
+const config = { levels: [150, 100, 50], hysteresis: 10 };
+
+describe('nextMarginWarningLevel', () => {
+  it('is null while the level is above every threshold', () => {
+    assert.equal(nextMarginWarningLevel(config, 200, null), null);
+  });
+
+  it('returns the lowest threshold crossed', () => {
+    assert.equal(nextMarginWarningLevel(config, 149, null), 150);
+    assert.equal(nextMarginWarningLevel(config, 99, null), 100);
+    assert.equal(nextMarginWarningLevel(config, 40, null), 50);
+  });
+
+  it('holds a threshold until the level clears it by the hysteresis', () => {
+    assert.equal(nextMarginWarningLevel(config, 155, 150), 150);
+    assert.equal(nextMarginWarningLevel(config, 160, 150), 150);
+    assert.equal(nextMarginWarningLevel(config, 161, 150), null);
+  });
+
+  it('steps back up one threshold at a time as the level recovers', () => {
+    assert.equal(nextMarginWarningLevel(config, 55, 50), 50);
+    assert.equal(nextMarginWarningLevel(config, 70, 50), 100);
+    assert.equal(nextMarginWarningLevel(config, 115, 100), 150);
+  });
+
+  it('follows a level hovering around a threshold without re-crossing it', () => {
+    let current: number | null = null;
+    const seen: (number | null)[] = [];
+    for (const level of [149, 152, 148, 158, 161, 99, 40]) {
+      current = nextMarginWarningLevel(config, level, current);
+      seen.push(current);
+    }
+    assert.deepEqual(seen, [150, 150, 150, 150, null, 100, 50]);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalMarketFeed } from '../src/lib/marketFeed.js';
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe('MarketFeed quote age', () => {
+  it('ignores ticks received longer ago than the max age', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const feed = new LocalMarketFeed();
+    // The broker's tick time does not count, only when it arrived here
+    feed.pushTick({ symbol: 'EUR/USD', bid: 1.1, ask: 1.1002, time: 0 });
+
+    mock.timers.tick(10000);
+    assert.equal((await feed.getQuote('EURUSD', undefined, 10000))?.bid, 1.1);
+    mock.timers.tick(1);
+    assert.equal(await feed.getQuote('EURUSD', undefined, 10000), null);
+
+    // Without a max age the last tick is served however old it is
+    assert.equal(feed.getLastTick('EURUSD')?.bid, 1.1);
+  });
+
+  it('serves a fresh tick again once one arrives', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const feed = new LocalMarketFeed();
+    feed.pushTick({ symbol: 'EURUSD', bid: 1.1, ask: 1.1002, time: 0 });
+
+    mock.timers.tick(60000);
+    feed.pushTick({ symbol: 'EURUSD', bid: 1.2, ask: 1.2002, time: 0 });
+    assert.equal(feed.getLastTick('EURUSD', 10000)?.bid, 1.2);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getLoginUrl, isBridgeUnavailable, MetaApiClient, MetaApiError } from '../src/lib/metaapi.js';
+import { tokenCache } from '../src/lib/tokenCache.js';
+
+interface FetchCall {
+  url: string;
+  authorization?: string;
+}
+
+/**
+ * Stand-in for the bridge: logins hand out token-1, token-2, ... and other
+ * calls answer with `respond` given the bearer token they carried.
+ */
+function mockBridge(respond: (token: string) => { status: number; body: unknown }) {
+  const calls: FetchCall[] = [];
+  let logins = 0;
+
+  mock.method(globalThis, 'fetch', async (input: string, init: RequestInit = {}) => {
+    const authorization = (init.headers as Record<string, string> | undefined)?.Authorization;
+    calls.push({ url: String(input), authorization });
+
+    if (String(input) === getLoginUrl()) {
+      logins++;
+      // Let concurrent callers pile up behind the login
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return new Response(JSON.stringify({ Token: `token-${logins}` }), { status: 200 });
+    }
+
+    const { status, body } = respond(authorization?.replace('Bearer ', '') ?? '');
+    return new Response(JSON.stringify(body), { status });
+  });
+
+  return {
+    calls,
+    loginCalls: () => calls.filter(call => call.url === getLoginUrl()).length,
+  };
+}
+
+describe('MetaApiClient', () => {
+  const account = { accountId: '1001', password: 'secret' };
+
+  beforeEach(async () => {
+    await tokenCache.clear(account.accountId);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('shares one login between concurrent requests', async () => {
+    const bridge = mockBridge(() => ({ status: 200, body: [] }));
+
+    await Promise.all([
+      new MetaApiClient(account).getPositions(),
+      new MetaApiClient(account).getOrders(),
+      new MetaApiClient(account).getPositions(),
+    ]);
+
+    assert.equal(bridge.loginCalls(), 1);
+    const authorized = bridge.calls.filter(call => call.url !== getLoginUrl());
+    assert.equal(authorized.length, 3);
+    assert.ok(authorized.every(call => call.authorization === 'Bearer token-1'));
+  });
+
+  it('reuses the cached token on later requests', async () => {
+    const bridge = mockBridge(() => ({ status: 200, body: [] }));
+    const client = new MetaApiClient(account);
+
+    await client.getPositions();
+    await client.getPositions();
+
+    assert.equal(bridge.loginCalls(), 1);
+  });
+
+  it('logs in again once and retries after a 401', async () => {
+    mock.method(console, 'warn', () => {});
+    await tokenCache.set(account.accountId, 'revoked');
+    const bridge = mockBridge(token => token === 'revoked'
+      ? { status: 401, body: { message: 'Unauthorized' } }
+      : { status: 200, body: [{ PositionId: 7 }] });
+
+    const positions = await new MetaApiClient(account).getPositions();
+
+    assert.deepEqual(positions, [{ PositionId: 7 }]);
+    assert.equal(bridge.loginCalls(), 1);
+    assert.deepEqual(
+      bridge.calls.map(call => call.authorization ?? 'login'),
+      ['Bearer revoked', 'login', 'Bearer token-1']
+    );
+    assert.equal(await tokenCache.get(account.accountId), 'token-1');
+  });
+
+  it('refreshes a rejected token once for concurrent requests', async () => {
+    mock.method(console, 'warn', () => {});
+    await tokenCache.set(account.accountId, 'revoked');
+    const bridge = mockBridge(token => token === 'revoked'
+      ? { status: 401, body: {} }
+      : { status: 200, body: [] });
+
+    await Promise.all([
+      new MetaApiClient(account).getPositions(),
+      new MetaApiClient(account).getOrders(),
+    ]);
+
+    assert.equal(bridge.loginCalls(), 1);
+  });
+
+  it('gives up after one retry when the fresh token is rejected too', async () => {
+    mock.method(console, 'warn', () => {});
+    const bridge = mockBridge(() => ({ status: 401, body: { message: 'Unauthorized' } }));
+
+    await assert.rejects(new MetaApiClient(account).getPositions(), (error: MetaApiError) => {
+      assert.equal(error.statusCode, 401);
+      return true;
+    });
+    assert.equal(bridge.loginCalls(), 2);
+  });
+});
+
+describe('isBridgeUnavailable', () => {
+  it('is true for unreachable, timed out and 5xx bridge errors only', () => {
+    assert.equal(isBridgeUnavailable(new MetaApiError('MetaAPI is unreachable', 502)), true);
+    assert.equal(isBridgeUnavailable(new MetaApiError('MetaAPI request timed out', 504)), true);
+    assert.equal(isBridgeUnavailable(new MetaApiError('Server error', 500)), true);
+    assert.equal(isBridgeUnavailable(new MetaApiError('Failed to authenticate with MetaAPI', 401)), false);
+    assert.equal(isBridgeUnavailable(new MetaApiError('MT5 account password not found', 400)), false);
+    assert.equal(isBridgeUnavailable(new Error('Database error')), false);
+  });
+});
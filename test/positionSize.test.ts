@@ -0,0 +1,112 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalMarketFeed, setMarketFeed } from '../src/lib/marketFeed.js';
+import {
+  computePositionSize,
+  getConversionRate,
+  getPipSize,
+  getProfitCurrency,
+  resolvePipValue,
+} from '../src/lib/positionSize.js';
+
+const eurusd = {
+  symbol: 'EURUSD',
+  digits: 5,
+  point: 0.00001,
+  contractSize: 100000,
+  tickSize: 0.00001,
+  tickValue: 1,
+  volumeStep: 0.01,
+  minVolume: 0.01,
+  maxVolume: 100,
+  currencyProfit: 'USD',
+};
+
+const usdjpy = { ...eurusd, symbol: 'USDJPY', digits: 3, point: 0.001, tickSize: 0.001, tickValue: 100, currencyProfit: 'JPY' };
+
+describe('getPipSize', () => {
+  it('counts ten points as a pip on fractional-pip quotes', () => {
+    assert.equal(getPipSize(eurusd), 0.0001);
+    assert.equal(getPipSize(usdjpy), 0.01);
+  });
+
+  it('uses one point on other quotes', () => {
+    assert.equal(getPipSize({ digits: 2, point: 0.01 }), 0.01);
+    assert.equal(getPipSize({ digits: 1, point: null }), 0.1);
+  });
+});
+
+describe('getProfitCurrency', () => {
+  it('prefers the instrument currency, then the quote currency of a pair', () => {
+    assert.equal(getProfitCurrency({ symbol: 'EURUSD', currencyProfit: 'chf' }), 'CHF');
+    assert.equal(getProfitCurrency({ symbol: 'EUR/JPY', currencyProfit: null }), 'JPY');
+    assert.equal(getProfitCurrency({ symbol: 'US500', currencyProfit: null }), 'USD');
+  });
+});
+
+describe('computePositionSize', () => {
+  it('sizes the volume so the stop-loss loses the risk amount', () => {
+    // 50 pips at 10 per pip per lot risks 500 per lot
+    const size = computePositionSize({ instrument: eurusd, entry: 1.1, stopLoss: 1.095, riskMoney: 100, pipValue: 10 });
+
+    assert.equal(size.volume, 0.2);
+    assert.equal(size.stopDistancePips, 50);
+    assert.equal(size.riskPerLot, 500);
+    assert.equal(size.actualRisk, 100);
+    assert.deepEqual(size.warnings, []);
+  });
+
+  it('rounds down to the volume step so the risk is never exceeded', () => {
+    const size = computePositionSize({ instrument: eurusd, entry: 1.1, stopLoss: 1.095, riskMoney: 104.99, pipValue: 10 });
+
+    assert.equal(size.volume, 0.2);
+    assert.ok(size.actualRisk <= 104.99);
+  });
+
+  it('works the same for a stop above the entry (short)', () => {
+    const size = computePositionSize({ instrument: eurusd, entry: 1.1, stopLoss: 1.105, riskMoney: 100, pipValue: 10 });
+    assert.equal(size.volume, 0.2);
+  });
+
+  it('caps at the maximum volume', () => {
+    const size = computePositionSize({ instrument: eurusd, entry: 1.1, stopLoss: 1.0999, riskMoney: 1000000, pipValue: 10 });
+
+    assert.equal(size.volume, 100);
+    assert.equal(size.actualRisk, 1000);
+    assert.equal(size.warnings.length, 1);
+  });
+
+  it('returns 0 when even the minimum volume risks too much', () => {
+    const size = computePositionSize({ instrument: eurusd, entry: 1.1, stopLoss: 1.0, riskMoney: 5, pipValue: 10 });
+
+    assert.equal(size.volume, 0);
+    assert.equal(size.actualRisk, 0);
+    assert.match(size.warnings[0], /minimum volume/);
+  });
+});
+
+describe('resolvePipValue', () => {
+  before(() => {
+    const feed = new LocalMarketFeed();
+    feed.pushTick({ symbol: 'USDJPY', bid: 149.99, ask: 150.01, time: 1 });
+    feed.pushTick({ symbol: 'EURUSD', bid: 1.0999, ask: 1.1001, time: 1 });
+    setMarketFeed(feed);
+  });
+
+  it('converts through the direct pair, its inverse, or USD', async () => {
+    assert.equal(await getConversionRate('usd', 'USD'), 1);
+    assert.equal(await getConversionRate('EUR', 'USD'), 1.1);
+    assert.equal(await getConversionRate('JPY', 'USD'), 1 / 150);
+    assert.equal((await getConversionRate('EUR', 'JPY'))?.toFixed(2), '165.00');
+    assert.equal(await getConversionRate('GBP', 'USD'), null);
+  });
+
+  it('prices a pip from the tick value in the account currency', async () => {
+    assert.deepEqual(await resolvePipValue(eurusd, 'USD'), { value: 10, source: 'tick', conversionRate: 1 });
+
+    // 1000 JPY per pip per lot is 1000 / 150 USD
+    const jpy = await resolvePipValue(usdjpy, 'USD');
+    assert.equal(jpy?.source, 'tick');
+    assert.equal(jpy?.value.toFixed(4), (1000 / 150).toFixed(4));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StatementTransaction, summarizeStatement } from '../src/lib/statement.js';
+
+const trade = (closeTime: string | null, profit: number, commission: number = 0, swap: number = 0) => ({
+  closeTime,
+  profit,
+  commission,
+  swap,
+  netProfit: Number((profit + commission + swap).toFixed(2)),
+});
+
+const transaction = (date: string, amount: number): StatementTransaction => ({
+  date: new Date(date),
+  type: amount > 0 ? 'deposit' : 'withdrawal',
+  amount,
+  method: null,
+  reference: null,
+  comment: null,
+});
+
+describe('summarizeStatement', () => {
+  const to = new Date('2024-01-31T23:59:59.999Z');
+
+  it('works the closing balance back from the current one by undoing later activity', () => {
+    const { summary } = summarizeStatement({
+      trades: [trade('2024-01-10T00:00:00Z', 100), trade('2024-02-05T00:00:00Z', 50, -2)],
+      transactions: [transaction('2024-02-01T00:00:00Z', 1000), transaction('2024-02-02T00:00:00Z', -200)],
+      currentBalance: 5000,
+      to,
+    });
+
+    // 5000 - 48 (later trade) - 1000 + 200 (later transactions)
+    assert.equal(summary.closingBalance, 4152);
+    assert.equal(summary.openingBalance, 4052);
+  });
+
+  it('derives the opening balance from the period P/L, deposits and withdrawals', () => {
+    const { summary } = summarizeStatement({
+      trades: [trade('2024-01-05T00:00:00Z', 120, -3.5, -1.25), trade('2024-01-20T00:00:00Z', -40, -3.5)],
+      transactions: [transaction('2024-01-02T00:00:00Z', 500), transaction('2024-01-25T00:00:00Z', -100)],
+      currentBalance: 2000,
+      to,
+    });
+
+    assert.deepEqual(summary, {
+      openingBalance: 1528.25,
+      closingBalance: 2000,
+      deposits: 500,
+      withdrawals: 100,
+      totalProfit: 80,
+      totalCommission: -7,
+      totalSwap: -1.25,
+      netProfit: 71.75,
+      tradeCount: 2,
+    });
+    // Opening + everything in the period lands on the closing balance
+    assert.equal(summary.openingBalance + summary.netProfit + summary.deposits - summary.withdrawals, summary.closingBalance);
+  });
+
+  it('counts activity exactly at the end of the period in it', () => {
+    const { periodTrades, periodTransactions } = summarizeStatement({
+      trades: [trade(to.toISOString(), 10), trade('2024-02-01T00:00:00Z', 10)],
+      transactions: [transaction(to.toISOString(), 100)],
+      currentBalance: 1000,
+      to,
+    });
+
+    assert.equal(periodTrades.length, 1);
+    assert.equal(periodTransactions.length, 1);
+  });
+
+  it('leaves trades without a close time out of both the period and the later activity', () => {
+    const { summary } = summarizeStatement({
+      trades: [trade(null, 999)],
+      transactions: [],
+      currentBalance: 1000,
+      to,
+    });
+
+    assert.equal(summary.closingBalance, 1000);
+    assert.equal(summary.openingBalance, 1000);
+    assert.equal(summary.tradeCount, 0);
+  });
+});
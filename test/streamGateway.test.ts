@@ -0,0 +1,158 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { generateToken } from '../src/lib/auth.js';
+import { LocalMarketFeed } from '../src/lib/marketFeed.js';
+import { StreamGateway } from '../src/lib/streamGateway.js';
+
+/**
+ * LocalMarketFeed that records what would be sent upstream
+ */
+class RecordingFeed extends LocalMarketFeed {
+  added: string[][] = [];
+  removed: string[][] = [];
+
+  // LocalMarketFeed declares these without parameters
+  protected async addSymbols(...[symbols]: string[][]): Promise<void> {
+    this.added.push(symbols);
+  }
+
+  protected async removeSymbols(...[symbols]: string[][]): Promise<void> {
+    this.removed.push(symbols);
+  }
+}
+
+/**
+ * Poll until a condition holds, for effects of events the test cannot await
+ */
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+interface TestClient {
+  socket: WebSocket;
+  /** Resolves with the next message of a type */
+  next(type: string): Promise<any>;
+}
+
+describe('StreamGateway', () => {
+  let server: Server;
+  let gateway: StreamGateway;
+  let feed: RecordingFeed;
+  let url: string;
+
+  before(async () => {
+    server = createServer();
+    feed = new RecordingFeed();
+    gateway = new StreamGateway(server, feed);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+  });
+
+  after(async () => {
+    gateway.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function connect(token: string = generateToken({ userId: 'user-1' })): Promise<TestClient> {
+    const socket = new WebSocket(`${url}?token=${encodeURIComponent(token)}`);
+    const queue: any[] = [];
+    const waiters: { type: string; resolve: (message: any) => void }[] = [];
+
+    socket.on('message', (raw) => {
+      const message = JSON.parse(raw.toString());
+      const index = waiters.findIndex(waiter => waiter.type === message.type);
+      if (index === -1) {
+        queue.push(message);
+        return;
+      }
+      waiters.splice(index, 1)[0].resolve(message);
+    });
+
+    const client: TestClient = {
+      socket,
+      next: (type) => {
+        const index = queue.findIndex(message => message.type === type);
+        if (index !== -1) return Promise.resolve(queue.splice(index, 1)[0]);
+        return new Promise(resolve => waiters.push({ type, resolve }));
+      },
+    };
+    await client.next('connected');
+    return client;
+  }
+
+  function send(client: TestClient, message: Record<string, unknown>): void {
+    client.socket.send(JSON.stringify(message));
+  }
+
+  async function disconnect(client: TestClient): Promise<void> {
+    await new Promise(resolve => {
+      client.socket.once('close', resolve);
+      client.socket.close();
+    });
+  }
+
+  it('rejects connections without a valid token', async () => {
+    const socket = new WebSocket(`${url}?token=not-a-token`);
+    const status = await new Promise<number | undefined>((resolve) => {
+      socket.on('unexpected-response', (_req, res) => resolve(res.statusCode));
+      socket.on('open', () => resolve(undefined));
+      socket.on('error', () => {});
+    });
+    socket.terminate();
+    assert.equal(status, 401);
+  });
+
+  it('subscribes upstream once per symbol and releases it with the last client', async () => {
+    feed.added = [];
+    feed.removed = [];
+    const first = await connect();
+    const second = await connect();
+
+    send(first, { type: 'subscribe', symbols: ['EUR/USD'] });
+    assert.deepEqual((await first.next('subscriptions')).symbols, ['EURUSD']);
+    send(second, { type: 'subscribe', symbols: ['eurusd'] });
+    await second.next('subscriptions');
+    assert.deepEqual(feed.added, [['EURUSD']]);
+
+    send(first, { type: 'unsubscribe', symbols: ['EURUSD'] });
+    assert.deepEqual((await first.next('subscriptions')).symbols, []);
+    assert.deepEqual(feed.removed, []);
+
+    await disconnect(second);
+    // Released by the server's close handler
+    await waitFor(() => feed.removed.length > 0);
+    assert.deepEqual(feed.removed, [['EURUSD']]);
+
+    await disconnect(first);
+  });
+
+  it('fans ticks out to the clients subscribed to the symbol', async () => {
+    const subscribed = await connect();
+    const other = await connect();
+
+    send(subscribed, { type: 'subscribe', symbols: ['GBPUSD'] });
+    await subscribed.next('subscriptions');
+    send(other, { type: 'subscribe', symbols: ['USDJPY'] });
+    await other.next('subscriptions');
+
+    feed.pushTick({ symbol: 'USDJPY', bid: 150.1, ask: 150.12, time: 1 });
+    feed.pushTick({ symbol: 'GBPUSD', bid: 1.27, ask: 1.2702, time: 2 });
+
+    assert.deepEqual((await subscribed.next('tick')).data, { symbol: 'GBPUSD', bid: 1.27, ask: 1.2702, time: 2 });
+    assert.equal((await other.next('tick')).data.symbol, 'USDJPY');
+
+    // A late subscriber gets the last known price right away
+    const late = await connect();
+    send(late, { type: 'subscribe', symbols: ['GBPUSD'] });
+    assert.equal((await late.next('tick')).data.time, 2);
+
+    await Promise.all([subscribed, other, late].map(disconnect));
+  });
+});
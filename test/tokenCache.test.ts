@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Redis } from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { MemoryTokenCache, RedisTokenCache, TokenCache } from '../src/lib/tokenCache.js';
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+/**
+ * The behaviour every backend must share
+ */
+function describeTokenCache(name: string, create: () => TokenCache): void {
+  describe(name, () => {
+    it('returns a token until two minutes before it expires', async () => {
+      mock.timers.enable({ apis: ['Date'], now: 0 });
+      const cache = create();
+      await cache.set('1001', 'token-a', 600);
+
+      assert.equal(await cache.get('1001'), 'token-a');
+      mock.timers.tick(479 * 1000);
+      assert.equal(await cache.get('1001'), 'token-a');
+      mock.timers.tick(1000);
+      assert.equal(await cache.get('1001'), null);
+    });
+
+    it('keeps tokens per account', async () => {
+      const cache = create();
+      await cache.set('1001', 'token-a');
+
+      assert.equal(await cache.get('1002'), null);
+    });
+
+    it('only clears the token it was given', async () => {
+      const cache = create();
+      await cache.set('1001', 'token-b');
+
+      await cache.clear('1001', 'token-a');
+      assert.equal(await cache.get('1001'), 'token-b');
+
+      await cache.clear('1001', 'token-b');
+      assert.equal(await cache.get('1001'), null);
+
+      await cache.set('1001', 'token-c');
+      await cache.clear('1001');
+      assert.equal(await cache.get('1001'), null);
+    });
+
+    it('counts failures until the next login', async () => {
+      const cache = create();
+      assert.deepEqual(await cache.getMetadata('1001'), { lastLoginAt: null, lastFailureAt: null, failureCount: 0 });
+
+      await cache.recordFailure('1001');
+      await cache.recordFailure('1001');
+      assert.equal((await cache.getMetadata('1001')).failureCount, 2);
+
+      await cache.recordLogin('1001');
+      const meta = await cache.getMetadata('1001');
+      assert.equal(meta.failureCount, 0);
+      assert.ok(meta.lastLoginAt instanceof Date);
+      assert.ok(meta.lastFailureAt instanceof Date);
+    });
+  });
+}
+
+describeTokenCache('MemoryTokenCache', () => new MemoryTokenCache());
+
+// ioredis-mock instances share one in-process keyspace, emptied before each test
+const redis = new RedisMock() as unknown as Redis;
+beforeEach(async () => {
+  await redis.flushall();
+});
+
+describeTokenCache('RedisTokenCache', () => new RedisTokenCache(redis));
+
+describe('RedisTokenCache failures', () => {
+  it('treats Redis errors as cache misses', async () => {
+    const broken = new RedisMock() as unknown as Redis;
+    mock.method(broken, 'hgetall', async () => {
+      throw new Error('Connection is closed');
+    });
+    mock.method(console, 'error', () => {});
+
+    const cache = new RedisTokenCache(broken);
+    assert.equal(await cache.get('1001'), null);
+    assert.equal((await cache.getMetadata('1001')).failureCount, 0);
+    mock.restoreAll();
+  });
+
+  it('expires the token key with its TTL', async () => {
+    const cache = new RedisTokenCache(redis, 'test:');
+    await cache.set('1001', 'token-a', 600);
+
+    const ttl = await redis.ttl('test:token:1001');
+    assert.ok(ttl > 0 && ttl <= 600);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ClosedTrade,
+  closedTradeQuerySchema,
+  DEFAULT_PAGE_SIZE,
+  filterClosedTrades,
+  isClosedTrade,
+  paginateClosedTrades,
+} from '../src/lib/tradeHistory.js';
+
+const trade = (ticket: number, overrides: Partial<ClosedTrade> = {}): ClosedTrade => ({
+  ticket,
+  positionId: ticket,
+  symbol: 'EURUSD',
+  side: 'buy',
+  volume: 0.1,
+  openPrice: 1.1,
+  closePrice: 1.101,
+  openTime: '2024-01-01T00:00:00.000Z',
+  closeTime: '2024-01-15T12:00:00.000Z',
+  profit: 10,
+  commission: 0,
+  swap: 0,
+  netProfit: 10,
+  comment: '',
+  ...overrides,
+});
+
+describe('isClosedTrade', () => {
+  const deal = { DealId: 11, Symbol: 'EURUSD', Price: 1.1, VolumeLots: 0.1 };
+
+  it('keeps break-even closing deals', () => {
+    assert.equal(isClosedTrade({ ...deal, Entry: 1, Profit: 0 }), true);
+    assert.equal(isClosedTrade({ ...deal, entry: 'DEAL_ENTRY_OUT_BY', profit: 0 }), true);
+  });
+
+  it('drops opening deals', () => {
+    assert.equal(isClosedTrade({ ...deal, Entry: 0, Profit: 0 }), false);
+    assert.equal(isClosedTrade({ ...deal, entry: 'In', Profit: 0 }), false);
+  });
+
+  it('drops profit-0 rows without a deal entry, which may be opening deals', () => {
+    assert.equal(isClosedTrade({ ...deal, Profit: 0 }), false);
+    assert.equal(isClosedTrade({ ...deal, Profit: -3.2 }), true);
+  });
+
+  it('drops balance operations', () => {
+    assert.equal(isClosedTrade({ DealId: 12, Symbol: '', Price: 0, VolumeLots: 0, Profit: 500 }), false);
+  });
+});
+
+describe('filterClosedTrades', () => {
+  const trades = [
+    trade(1, { closeTime: '2024-01-01T08:00:00.000Z' }),
+    trade(2, { closeTime: '2024-01-31T15:00:00.000Z', symbol: 'GBPUSD', side: 'sell' }),
+    trade(3, { closeTime: '2024-02-01T00:00:00.000Z' }),
+    trade(4, { closeTime: null }),
+  ];
+  const tickets = (rows: ClosedTrade[]) => rows.map(row => row.ticket);
+
+  it('includes the whole of a date-only to day', () => {
+    assert.deepEqual(tickets(filterClosedTrades(trades, { from: '2024-01-01', to: '2024-01-31' })), [1, 2]);
+  });
+
+  it('compares a date-time to exactly', () => {
+    assert.deepEqual(tickets(filterClosedTrades(trades, { to: '2024-01-31T12:00:00Z' })), [1]);
+  });
+
+  it('drops trades without a close time only when a range is set', () => {
+    assert.deepEqual(tickets(filterClosedTrades(trades, {})), [1, 2, 3, 4]);
+    assert.deepEqual(tickets(filterClosedTrades(trades, { from: '2024-01-01' })), [1, 2, 3]);
+  });
+
+  it('filters by symbol and side', () => {
+    assert.deepEqual(tickets(filterClosedTrades(trades, { symbol: 'gbp/usd' })), [2]);
+    assert.deepEqual(tickets(filterClosedTrades(trades, { side: 'buy' })), [1, 3, 4]);
+  });
+
+  it('turns a date-only to into the end of that day when parsing the query', () => {
+    const query = closedTradeQuerySchema.parse({ to: '2024-01-31' });
+    assert.equal(query.to, '2024-01-31T23:59:59.999Z');
+  });
+
+  it('leaves limit unset so callers that do not ask for pages get every trade', () => {
+    assert.equal(closedTradeQuerySchema.parse({}).limit, undefined);
+    assert.equal(closedTradeQuerySchema.parse({ limit: '20' }).limit, 20);
+  });
+});
+
+describe('paginateClosedTrades', () => {
+  const trades = [1, 2, 3, 4, 5].map(ticket => trade(ticket, { profit: ticket % 2 === 0 ? 5 : 10 }));
+
+  it('walks every trade once, in order, across pages', () => {
+    const query = { sort: 'profit' as const, order: 'desc' as const, limit: 2 };
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = paginateClosedTrades(trades, { ...query, cursor });
+      assert.ok(page);
+      seen.push(...page.items.map(item => item.ticket));
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    assert.equal(pages, 3);
+    // Equal profits fall back to the ticket, in the same direction
+    assert.deepEqual(seen, [5, 3, 1, 4, 2]);
+  });
+
+  it('does not shift pages when a trade arrives between requests', () => {
+    const query = { sort: 'closeTime' as const, order: 'desc' as const, limit: 2 };
+    const dated = trades.map(row => trade(row.ticket, { closeTime: `2024-01-0${row.ticket}T00:00:00.000Z` }));
+
+    const first = paginateClosedTrades(dated, query);
+    assert.ok(first?.nextCursor);
+    const newer = [...dated, trade(6, { closeTime: '2024-01-06T00:00:00.000Z' })];
+    const second = paginateClosedTrades(newer, { ...query, cursor: first.nextCursor });
+
+    assert.deepEqual(first.items.map(item => item.ticket), [5, 4]);
+    assert.deepEqual(second?.items.map(item => item.ticket), [3, 2]);
+  });
+
+  it('has no next cursor on the last page', () => {
+    const page = paginateClosedTrades(trades, { sort: 'closeTime', order: 'asc', limit: 5 });
+    assert.equal(page?.items.length, 5);
+    assert.equal(page?.nextCursor, null);
+  });
+
+  it('uses the default page size for a cursor without a limit', () => {
+    const many = Array.from({ length: DEFAULT_PAGE_SIZE + 5 }, (_, index) => trade(index + 1));
+    const first = paginateClosedTrades(many, { sort: 'closeTime', order: 'asc', limit: 1 });
+    const next = paginateClosedTrades(many, { sort: 'closeTime', order: 'asc', cursor: first!.nextCursor! });
+
+    assert.equal(next?.items.length, DEFAULT_PAGE_SIZE);
+    assert.notEqual(next?.nextCursor, null);
+  });
+
+  it('rejects a cursor it did not issue', () => {
+    assert.equal(paginateClosedTrades(trades, { sort: 'closeTime', order: 'desc', limit: 2, cursor: 'not-a-cursor' }), null);
+  });
+});
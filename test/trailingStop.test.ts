@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTrailingStopLoss, getRetryDelay, tighterStopLoss } from '../src/workers/trailingStopWorker.js';
+
+// 20 points behind the price, moving in steps of at least 5 points
+const stop = (side: string, stopLoss: number | null) => ({
+  side,
+  distance: 20,
+  step: 5,
+  stopLoss,
+  pointSize: 0.00001,
+  digits: 5,
+});
+
+describe('computeTrailingStopLoss', () => {
+  it('places a first SL distance behind the price', () => {
+    assert.equal(computeTrailingStopLoss(stop('buy', null), 1.1), 1.0998);
+    assert.equal(computeTrailingStopLoss(stop('sell', null), 1.1), 1.1002);
+  });
+
+  it('moves a buy SL up by at least the step', () => {
+    assert.equal(computeTrailingStopLoss(stop('buy', 1.0998), 1.10004), null);
+    assert.equal(computeTrailingStopLoss(stop('buy', 1.0998), 1.10005), 1.09985);
+  });
+
+  it('moves a sell SL down by at least the step', () => {
+    assert.equal(computeTrailingStopLoss(stop('sell', 1.1002), 1.09996), null);
+    assert.equal(computeTrailingStopLoss(stop('sell', 1.1002), 1.09995), 1.10015);
+  });
+
+  it('never moves the SL backwards', () => {
+    assert.equal(computeTrailingStopLoss(stop('buy', 1.0998), 1.0990), null);
+    assert.equal(computeTrailingStopLoss(stop('sell', 1.1002), 1.1010), null);
+  });
+
+  it('ignores an unknown side', () => {
+    assert.equal(computeTrailingStopLoss(stop('', null), 1.1), null);
+  });
+});
+
+describe('tighterStopLoss', () => {
+  it('takes the higher SL for buys and the lower for sells', () => {
+    assert.equal(tighterStopLoss('buy', 1.09, 1.095), 1.095);
+    assert.equal(tighterStopLoss('sell', 1.11, 1.105), 1.105);
+  });
+
+  it('treats null and 0 as no stop', () => {
+    assert.equal(tighterStopLoss('buy', null, 1.09), 1.09);
+    assert.equal(tighterStopLoss('sell', 1.11, 0), 1.11);
+    assert.equal(tighterStopLoss('buy', null, null), null);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles from 30 seconds per failure, up to 30 minutes', () => {
+    assert.equal(getRetryDelay(1), 30000);
+    assert.equal(getRetryDelay(2), 60000);
+    assert.equal(getRetryDelay(4), 240000);
+    assert.equal(getRetryDelay(20), 30 * 60 * 1000);
+  });
+});
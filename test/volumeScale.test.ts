@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_VOLUME_SCALES, findVolumeScale, mergeVolumeScales, VolumeScaleRule } from '../src/lib/volumeScale.js';
+
+const rule = (overrides: Partial<VolumeScaleRule>): VolumeScaleRule => ({
+  operation: 'pending',
+  scopeType: 'default',
+  scopeValue: '',
+  multiplier: 1,
+  decimals: null,
+  ...overrides,
+});
+
+describe('mergeVolumeScales', () => {
+  it('uses the defaults when the table is empty', () => {
+    assert.deepEqual(mergeVolumeScales([]), DEFAULT_VOLUME_SCALES);
+  });
+
+  it('replaces only the default with the same operation and scope', () => {
+    const override = rule({ scopeType: 'contains', scopeValue: 'btc', multiplier: 10 });
+    const rules = mergeVolumeScales([override]);
+
+    assert.equal(rules.length, DEFAULT_VOLUME_SCALES.length);
+    assert.equal(findVolumeScale(rules, 'pending', 'BTCUSD'), override);
+    // The other pending defaults stay in effect
+    assert.equal(findVolumeScale(rules, 'pending', 'ETHUSD')?.multiplier, 100);
+    assert.equal(findVolumeScale(rules, 'pending', 'EURUSD')?.multiplier, 0.1);
+  });
+
+  it('keeps the defaults next to a narrower row', () => {
+    const rules = mergeVolumeScales([rule({ scopeType: 'symbol', scopeValue: 'XAUUSD', multiplier: 1 })]);
+    assert.equal(rules.length, DEFAULT_VOLUME_SCALES.length + 1);
+    assert.equal(findVolumeScale(rules, 'pending', 'EURUSD')?.multiplier, 0.1);
+  });
+});
+
+describe('findVolumeScale', () => {
+  const rules = [
+    rule({ scopeType: 'default', multiplier: 1 }),
+    rule({ scopeType: 'category', scopeValue: 'crypto', multiplier: 2 }),
+    rule({ scopeType: 'contains', scopeValue: 'BTC', multiplier: 3 }),
+    rule({ scopeType: 'symbol', scopeValue: 'BTCUSD', multiplier: 4 }),
+    rule({ operation: 'market', scopeType: 'default', multiplier: 100 }),
+  ];
+
+  it('prefers symbol, then contains, then category, then default', () => {
+    assert.equal(findVolumeScale(rules, 'pending', 'BTC/USD', 'Crypto')?.multiplier, 4);
+    assert.equal(findVolumeScale(rules, 'pending', 'BTCEUR', 'Crypto')?.multiplier, 3);
+    assert.equal(findVolumeScale(rules, 'pending', 'ETHUSD', 'crypto')?.multiplier, 2);
+    assert.equal(findVolumeScale(rules, 'pending', 'EURUSD', 'forex')?.multiplier, 1);
+  });
+
+  it('only looks at rules for the operation', () => {
+    assert.equal(findVolumeScale(rules, 'market', 'BTCUSD')?.multiplier, 100);
+    assert.equal(findVolumeScale(rules, 'close', 'BTCUSD'), null);
+  });
+});